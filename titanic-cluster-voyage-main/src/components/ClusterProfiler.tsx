@@ -1,12 +1,18 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
   PieChart, Pie, Cell
 } from 'recharts';
-import { getClusterProfiles, getClusterSurvivalRates, ProcessedData, TitanicPassenger } from '@/utils/dataUtils';
+import {
+  getClusterLabelledCounts,
+  getClusterProfiles,
+  getClusterSurvivalRates,
+  ProcessedData,
+  TitanicPassenger
+} from '@/utils/dataUtils';
 
 interface ClusterProfilerProps {
   processedData: ProcessedData;
@@ -28,6 +34,20 @@ const ClusterProfiler = ({
   const [pcaSurvival, setPcaSurvival] = useState<Record<number, number>>({});
   const [selectedCluster, setSelectedCluster] = useState<number>(0);
   
+  // Passenger rows with the pipeline's <column>_missing indicators, whose cluster averages are missing rates
+  const profileRows = useMemo(() => {
+    const indicators = Object.entries(processedData.missingIndicators ?? {});
+    if (indicators.length === 0) return processedData.original;
+    return processedData.original.map((passenger, i) => {
+      const row = { ...passenger };
+      indicators.forEach(([name, values]) => {
+        row[name] = values[i];
+      });
+      return row;
+    });
+  }, [processedData]);
+  const indicatorNames = Object.keys(processedData.missingIndicators ?? {});
+  
   // Process cluster profiles when clusters change
   useEffect(() => {
     if (
@@ -40,7 +60,7 @@ const ClusterProfiler = ({
     
     // Get profiles for original clusters
     const origProfiles = getClusterProfiles(
-      processedData.original,
+      profileRows,
       originalClusters
     );
     setOriginalProfiles(origProfiles);
@@ -55,7 +75,7 @@ const ClusterProfiler = ({
     // Get profiles for PCA clusters if available
     if (pcaClusters && pcaClusters.length > 0) {
       const pcaClusterProfiles = getClusterProfiles(
-        processedData.original,
+        profileRows,
         pcaClusters
       );
       setPcaProfiles(pcaClusterProfiles);
@@ -68,7 +88,7 @@ const ClusterProfiler = ({
       setPcaSurvival(pcaSurvivalRates);
     }
     
-  }, [processedData, originalClusters, pcaClusters]);
+  }, [processedData, profileRows, originalClusters, pcaClusters]);
   
   const handleTabChange = (value: string) => {
     setActiveTab(value);
@@ -120,6 +140,7 @@ const ClusterProfiler = ({
   
   const getSurvivalData = (survivalRates: Record<number, number>) => {
     return Object.entries(survivalRates).map(([cluster, rate]) => ({
+      cluster: parseInt(cluster, 10),
       name: `Cluster ${cluster}`,
       value: rate * 100
     }));
@@ -151,6 +172,49 @@ const ClusterProfiler = ({
     
   const survivedData = getSurvivalData(currentSurvival);
   
+  // Survival is only known for labelled rows (e.g. not for the Kaggle test split)
+  const labelledCounts = getClusterLabelledCounts(processedData.survivedColumn, currentClusters);
+  const clusterSize = currentClusters.filter(c => c === selectedCluster).length;
+  const labelledCount = labelledCounts[selectedCluster] || 0;
+  
+  // Share of the selected cluster with each indicated value missing, next to the overall share
+  const missingRateData = indicatorNames.map(name => {
+    const values = processedData.missingIndicators![name];
+    const overall = values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+    return {
+      feature: name,
+      cluster: (currentProfiles[selectedCluster]?.[name] ?? 0) * 100,
+      overall: overall * 100
+    };
+  });
+  
+  const missingIndicatorSection = missingRateData.length > 0 && (
+    <div className="mt-4">
+      <h3 className="text-md font-medium mb-2">Missing Values</h3>
+      <div className="chart-container" style={{ height: 48 + missingRateData.length * 40 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={missingRateData}
+            layout="vertical"
+            margin={{ top: 5, right: 20, left: 80, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" domain={[0, 100]} />
+            <YAxis
+              type="category"
+              dataKey="feature"
+              width={100}
+            />
+            <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+            <Legend />
+            <Bar dataKey="cluster" fill="hsl(var(--primary))" name={`Cluster ${selectedCluster} (%)`} />
+            <Bar dataKey="overall" fill="hsl(var(--muted-foreground))" name="All passengers (%)" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+  
   const COLORS = [
     "hsl(var(--primary))",
     "hsl(var(--secondary))",
@@ -292,11 +356,14 @@ const ClusterProfiler = ({
               
               {/* Survival Rate */}
               <div>
-                <h3 className="text-md font-medium mb-2">Survival Rate</h3>
+                <h3 className="text-md font-medium mb-1">Survival Rate</h3>
+                <p className="text-xs text-muted-foreground mb-1">
+                  Based on {labelledCount} of {clusterSize} passengers with a known outcome
+                </p>
                 <div className="chart-container h-64">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart
-                      data={[survivedData[selectedCluster]]}
+                      data={survivedData.filter(d => d.cluster === selectedCluster)}
                       layout="vertical"
                       margin={{ top: 5, right: 20, left: 80, bottom: 5 }}
                     >
@@ -342,12 +409,17 @@ const ClusterProfiler = ({
                         return `${maxClass}${maxClass === '1' ? 'st' : maxClass === '2' ? 'nd' : 'rd'} class (${(pclassData[selectedCluster][maxClass] * 100).toFixed(0)}%)`;
                       })() : 'Unknown'
                     }</li>
-                    <li><strong>Survival Rate:</strong> {currentSurvival[selectedCluster] ? 
-                      `${(currentSurvival[selectedCluster] * 100).toFixed(1)}%` : 'Unknown'}</li>
+                    <li><strong>Survival Rate:</strong> {currentSurvival[selectedCluster] !== undefined ? 
+                      `${(currentSurvival[selectedCluster] * 100).toFixed(1)}% (${labelledCount} labelled)` : 'Unknown'}</li>
+                    {missingRateData.map(({ feature, cluster }) => (
+                      <li key={feature}><strong>{feature}:</strong> {cluster.toFixed(0)}% of passengers</li>
+                    ))}
                   </ul>
                 )}
               </div>
             </div>
+            
+            {missingIndicatorSection}
           </TabsContent>
           
           <TabsContent value="pca">
@@ -449,11 +521,14 @@ const ClusterProfiler = ({
               
               {/* Survival Rate */}
               <div>
-                <h3 className="text-md font-medium mb-2">Survival Rate</h3>
+                <h3 className="text-md font-medium mb-1">Survival Rate</h3>
+                <p className="text-xs text-muted-foreground mb-1">
+                  Based on {labelledCount} of {clusterSize} passengers with a known outcome
+                </p>
                 <div className="chart-container h-64">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart
-                      data={[survivedData[selectedCluster]]}
+                      data={survivedData.filter(d => d.cluster === selectedCluster)}
                       layout="vertical"
                       margin={{ top: 5, right: 20, left: 80, bottom: 5 }}
                     >
@@ -499,12 +574,17 @@ const ClusterProfiler = ({
                         return `${maxClass}${maxClass === '1' ? 'st' : maxClass === '2' ? 'nd' : 'rd'} class (${(pclassData[selectedCluster][maxClass] * 100).toFixed(0)}%)`;
                       })() : 'Unknown'
                     }</li>
-                    <li><strong>Survival Rate:</strong> {currentSurvival[selectedCluster] ? 
-                      `${(currentSurvival[selectedCluster] * 100).toFixed(1)}%` : 'Unknown'}</li>
+                    <li><strong>Survival Rate:</strong> {currentSurvival[selectedCluster] !== undefined ? 
+                      `${(currentSurvival[selectedCluster] * 100).toFixed(1)}% (${labelledCount} labelled)` : 'Unknown'}</li>
+                    {missingRateData.map(({ feature, cluster }) => (
+                      <li key={feature}><strong>{feature}:</strong> {cluster.toFixed(0)}% of passengers</li>
+                    ))}
                   </ul>
                 )}
               </div>
             </div>
+            
+            {missingIndicatorSection}
           </TabsContent>
         </Tabs>
       </CardContent>
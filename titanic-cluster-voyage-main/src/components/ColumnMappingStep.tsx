@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Save, Trash2 } from 'lucide-react';
+import {
+  applyMappingProfile,
+  CANONICAL_FIELDS,
+  ColumnMapping,
+  deleteMappingProfile,
+  findDuplicateTargets,
+  IGNORE_COLUMN,
+  KEEP_COLUMN,
+  loadMappingProfiles,
+  MappingProfile,
+  MappingSuggestion,
+  MappingTarget,
+  saveMappingProfile,
+  suggestionsToMapping
+} from '@/utils/columnMapping';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  sampleRows: string[][];
+  suggestions: Record<string, MappingSuggestion>;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+}
+
+const METHOD_LABELS: Record<MappingSuggestion['method'], string> = {
+  exact: 'Exact',
+  alias: 'Alias',
+  fuzzy: 'Fuzzy',
+  none: 'No match'
+};
+
+const ColumnMappingStep = ({
+  headers,
+  sampleRows,
+  suggestions,
+  mapping,
+  onMappingChange
+}: ColumnMappingStepProps) => {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [profileName, setProfileName] = useState('');
+
+  const duplicates = findDuplicateTargets(mapping);
+
+  const handleTargetChange = (header: string, target: MappingTarget) => {
+    onMappingChange({ ...mapping, [header]: target });
+  };
+
+  const handleApplyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    onMappingChange(applyMappingProfile(headers, profile, suggestionsToMapping(suggestions)));
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setProfiles(saveMappingProfile(name, mapping));
+    setProfileName('');
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    setProfiles(deleteMappingProfile(name));
+  };
+
+  const exampleValue = (columnIndex: number) => {
+    const row = sampleRows.find(r => (r[columnIndex] ?? '').trim() !== '');
+    return row ? row[columnIndex] : '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Column Mapping</h4>
+        {profiles.length > 0 && (
+          <Select onValueChange={handleApplyProfile}>
+            <SelectTrigger className="h-8 w-44 text-xs">
+              <SelectValue placeholder="Apply saved profile" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {headers.map((header, index) => {
+          const suggestion = suggestions[header];
+          const target = mapping[header] ?? KEEP_COLUMN;
+          const isDuplicate = duplicates.includes(target as typeof duplicates[number]);
+
+          return (
+            <div key={header} className="grid grid-cols-2 gap-2 items-center">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate" title={header}>{header}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  e.g. {exampleValue(index) || '—'}
+                  {suggestion && suggestion.method !== 'none' && (
+                    <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">
+                      {METHOD_LABELS[suggestion.method]}
+                    </Badge>
+                  )}
+                </p>
+              </div>
+              <Select
+                value={target}
+                onValueChange={(value) => handleTargetChange(header, value as MappingTarget)}
+              >
+                <SelectTrigger className={`h-8 text-xs ${isDuplicate ? 'border-destructive' : ''}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP_COLUMN}>Keep as "{header}"</SelectItem>
+                  <SelectItem value={IGNORE_COLUMN}>Ignore column</SelectItem>
+                  <SelectSeparator />
+                  {CANONICAL_FIELDS.map(field => (
+                    <SelectItem key={field} value={field}>{field}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+
+      {duplicates.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Each field can only be mapped once: {duplicates.join(', ')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name"
+          className="h-8 text-xs"
+        />
+        <Button variant="outline" size="sm" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {profiles.map(profile => (
+            <Badge key={profile.name} variant="secondary" className="gap-1">
+              {profile.name}
+              <button
+                type="button"
+                onClick={() => handleDeleteProfile(profile.name)}
+                className="opacity-60 hover:opacity-100"
+                aria-label={`Delete profile ${profile.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { X } from 'lucide-react';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
+import { isComputeCancelled } from '@/services/computeClient';
+import { useComputeTask } from '@/hooks/use-compute-task';
+import { TitanicPassenger } from '@/utils/dataUtils';
+import { ColumnProfile, describeFilter, ProfileBucket, ProfileFilter } from '@/utils/profiling';
+
+interface ColumnProfilesProps {
+  data: TitanicPassenger[];
+  filter: ProfileFilter | null;
+  onFilterChange: (filter: ProfileFilter | null) => void;
+}
+
+const formatNumber = (value: number) => {
+  if (Math.abs(value) >= 1000) return value.toFixed(0);
+  return String(Math.round(value * 100) / 100);
+};
+
+const formatRate = (bucket: ProfileBucket) =>
+  bucket.labelled > 0 ? `${((bucket.survived / bucket.labelled) * 100).toFixed(0)}%` : '—';
+
+interface ColumnProfileCardProps {
+  profile: ColumnProfile;
+  selected: ProfileBucket | null; // the bar filtering the table, if it belongs to this column
+  onSelect: (bucket: ProfileBucket) => void;
+}
+
+const ColumnProfileCard = ({ profile, selected, onSelect }: ColumnProfileCardProps) => {
+  const { summary, buckets, missingBucket } = profile;
+  const missingShare = profile.rows > 0 ? (profile.missing / profile.rows) * 100 : 0;
+  const breakdown = profile.missing > 0 ? [...buckets, missingBucket] : buckets;
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-3 ${selected ? 'ring-2 ring-primary' : ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium truncate" title={profile.column}>{profile.column}</span>
+        <span className="flex items-center gap-1 shrink-0">
+          <Badge variant="outline">{profile.type}</Badge>
+          <Badge variant="secondary">{profile.distinct} distinct</Badge>
+        </span>
+      </div>
+
+      {buckets.length > 0 ? (
+        <div className="h-28">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={buckets} margin={{ top: 0, right: 0, bottom: 0, left: -24 }}>
+              <XAxis dataKey="label" tick={false} height={4} />
+              <YAxis tick={{ fontSize: 10 }} allowDecimals={false} />
+              <Tooltip
+                formatter={(value: number) => [value, 'Rows']}
+                labelFormatter={(label: string) => `${profile.column}: ${label}`}
+              />
+              <Bar
+                dataKey="count"
+                className="cursor-pointer"
+                onClick={(_, index) => onSelect(buckets[index])}
+              >
+                {buckets.map((bucket, index) => (
+                  <Cell
+                    key={`${bucket.label}-${index}`}
+                    fill={bucket === selected ? 'hsl(var(--primary))' : 'hsl(var(--muted-foreground))'}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No values.</p>
+      )}
+
+      <button
+        type="button"
+        className="w-full text-left space-y-1 disabled:cursor-default"
+        disabled={profile.missing === 0}
+        onClick={() => onSelect(missingBucket)}
+      >
+        <div className="flex justify-between text-xs">
+          <span>Missing</span>
+          <span className="text-muted-foreground">{profile.missing} ({missingShare.toFixed(1)}%)</span>
+        </div>
+        <Progress value={missingShare} className={`h-1.5 ${selected === missingBucket ? 'bg-primary/30' : ''}`} />
+      </button>
+
+      {summary ? (
+        <div className="grid grid-cols-4 gap-x-2 gap-y-1 text-xs">
+          {([
+            ['Mean', summary.mean],
+            ['Std', summary.std],
+            ['Skew', summary.skew],
+            ['Min', summary.min],
+            ['Q1', summary.q1],
+            ['Median', summary.median],
+            ['Q3', summary.q3],
+            ['Max', summary.max]
+          ] as const).map(([label, value]) => (
+            <div key={label}>
+              <p className="text-muted-foreground">{label}</p>
+              <p>{formatNumber(value)}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs space-y-0.5">
+          <p className="text-muted-foreground">Top categories</p>
+          {buckets.slice(0, 3).map(bucket => (
+            <div key={bucket.label} className="flex justify-between gap-2">
+              <span className="truncate">{bucket.label}</span>
+              <span className="text-muted-foreground shrink-0">
+                {bucket.count} ({((bucket.count / (profile.rows || 1)) * 100).toFixed(1)}%)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {profile.survivalRate !== undefined && (
+        <div className="text-xs space-y-0.5">
+          <p className="text-muted-foreground">
+            Survival rate (overall {(profile.survivalRate * 100).toFixed(0)}%)
+          </p>
+          <div className="max-h-32 overflow-y-auto pr-1 space-y-0.5">
+            {breakdown.filter(bucket => bucket.count > 0).map((bucket, index) => (
+              <button
+                key={`${bucket.label}-${index}`}
+                type="button"
+                className={`w-full flex items-center gap-2 rounded px-1 hover:bg-muted ${
+                  bucket === selected ? 'bg-muted' : ''
+                }`}
+                onClick={() => onSelect(bucket)}
+              >
+                <span className="w-24 truncate text-left" title={bucket.label}>{bucket.label}</span>
+                <Progress
+                  value={bucket.labelled > 0 ? (bucket.survived / bucket.labelled) * 100 : 0}
+                  className="h-1.5 flex-1"
+                />
+                <span className="w-16 text-right text-muted-foreground">
+                  {formatRate(bucket)} ({bucket.labelled})
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ColumnProfiles = ({ data, filter, onFilterChange }: ColumnProfilesProps) => {
+  const { status, run, cancel } = useComputeTask();
+  const [profiles, setProfiles] = useState<ColumnProfile[]>([]);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (data.length === 0) return;
+    let active = true;
+
+    run('profileColumns', [data])
+      .then(result => {
+        if (active) setProfiles(result);
+      })
+      .catch(err => {
+        if (!isComputeCancelled(err)) console.error('Profiling error:', err);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [data, run, attempt]);
+
+  // Clicking the bar that is already filtering the table clears the filter
+  const handleSelect = (column: string, bucket: ProfileBucket) => {
+    const isSelected = filter?.column === column && filter.bucket === bucket;
+    onFilterChange(isSelected ? null : { column, bucket });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Column Profiles</CardTitle>
+        <CardDescription>
+          Distribution, summary statistics and missing values of every column, with survival rates when
+          Survived is present. Click a bar to show only those rows in the dataset preview.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ComputeStatusBar status={status} onCancel={cancel} onRetry={() => setAttempt(prev => prev + 1)} />
+
+        {filter && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm">Filtering the preview by</span>
+            <Badge>{describeFilter(filter)}</Badge>
+            <Button variant="ghost" size="sm" onClick={() => onFilterChange(null)}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {profiles.map(profile => (
+            <ColumnProfileCard
+              key={profile.column}
+              profile={profile}
+              selected={filter?.column === profile.column ? filter.bucket : null}
+              onSelect={(bucket) => handleSelect(profile.column, bucket)}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ColumnProfiles;
@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Loader2 } from 'lucide-react';
+import { ComputeStatus } from '@/hooks/use-compute-task';
+
+interface ComputeStatusBarProps {
+  status: ComputeStatus;
+  onCancel: () => void;
+  onRetry?: () => void;
+  className?: string;
+}
+
+// Live progress for a worker task, with cancel while running and retry afterwards
+const ComputeStatusBar = ({ status, onCancel, onRetry, className = '' }: ComputeStatusBarProps) => {
+  if (status.state === 'running') {
+    return (
+      <div className={`space-y-1 ${className}`}>
+        <div className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-sm min-w-0">
+            <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+            <span className="truncate">{status.message}</span>
+          </span>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="text-sm">{Math.round(status.fraction * 100)}%</span>
+            <Button variant="outline" size="sm" onClick={onCancel}>Cancel</Button>
+          </div>
+        </div>
+        <Progress value={status.fraction * 100} className="w-full h-2" />
+      </div>
+    );
+  }
+
+  if (status.state === 'cancelled' || status.state === 'error') {
+    return (
+      <div className={`flex items-center justify-between gap-2 ${className}`}>
+        <span className={`text-sm ${status.state === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {status.state === 'error' ? `Failed: ${status.message}` : 'Computation cancelled'}
+        </span>
+        {onRetry && <Button variant="outline" size="sm" onClick={onRetry}>Run again</Button>}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default ComputeStatusBar;
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CartesianGrid, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
+import { isComputeCancelled } from '@/services/computeClient';
+import { useComputeTask } from '@/hooks/use-compute-task';
+import { CORRELATION_METHODS, CorrelationMethod, CorrelationResult, HIGH_VIF } from '@/utils/correlation';
+import { ProcessedData } from '@/utils/dataUtils';
+
+interface CorrelationAnalysisProps {
+  processedData: ProcessedData;
+}
+
+// Values are printed in the cells while they still fit
+const MAX_LABELLED_FEATURES = 12;
+const MAX_SCATTER_POINTS = 500;
+
+// Red for positive, blue for negative, stronger for larger values
+const cellColor = (value: number | null) => {
+  if (value === null) return 'hsl(var(--muted))';
+  const hue = value >= 0 ? 0 : 220;
+  return `hsla(${hue}, 75%, 50%, ${Math.min(1, Math.abs(value)) * 0.85 + 0.05})`;
+};
+
+const formatValue = (value: number | null | undefined) => (value === null || value === undefined ? '—' : value.toFixed(2));
+
+const formatVif = (vif: number) => (Number.isFinite(vif) ? vif.toFixed(1) : '∞');
+
+const CorrelationAnalysis = ({ processedData }: CorrelationAnalysisProps) => {
+  const { status, run, cancel } = useComputeTask();
+  const [result, setResult] = useState<CorrelationResult | null>(null);
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [selected, setSelected] = useState<[string, string] | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (processedData.processed.length === 0) return;
+    let active = true;
+    setSelected(null);
+
+    run('analyseCorrelations', [
+      processedData.processed,
+      processedData.features,
+      processedData.numericalFeatures,
+      processedData.categoricalFeatures
+    ])
+      .then(analysis => {
+        if (active) setResult(analysis);
+      })
+      .catch(err => {
+        if (!isComputeCancelled(err)) console.error('Correlation error:', err);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [processedData, run, attempt]);
+
+  const matrix = result?.[method];
+
+  // Every measure available for the selected pair
+  const pairValues = useMemo(() => {
+    if (!result || !selected) return [];
+    return (Object.keys(CORRELATION_METHODS) as CorrelationMethod[]).map(key => {
+      const { features, values } = result[key];
+      const i = features.indexOf(selected[0]);
+      const j = features.indexOf(selected[1]);
+      return { key, value: i >= 0 && j >= 0 ? values[i][j] : undefined };
+    });
+  }, [result, selected]);
+
+  // Scaled values of a numerical pair, thinned out evenly for large datasets
+  const scatterData = useMemo(() => {
+    if (!selected) return [];
+    const x = processedData.features.indexOf(selected[0]);
+    const y = processedData.features.indexOf(selected[1]);
+    if (x < 0 || y < 0 || !processedData.numericalFeatures.includes(selected[0]) ||
+      !processedData.numericalFeatures.includes(selected[1])) return [];
+    const step = Math.max(1, Math.ceil(processedData.processed.length / MAX_SCATTER_POINTS));
+    return processedData.processed
+      .filter((_, i) => i % step === 0)
+      .map(row => ({ x: row[x], y: row[y] }));
+  }, [processedData, selected]);
+
+  const vifRows = useMemo(
+    () => [...(result?.vif ?? [])].sort((a, b) => b.vif - a.vif),
+    [result]
+  );
+
+  const showValues = (matrix?.features.length ?? 0) <= MAX_LABELLED_FEATURES;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Feature Correlations</CardTitle>
+        <CardDescription>
+          How the processed features relate to each other before PCA. Click a cell to compare the pair.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ComputeStatusBar status={status} onCancel={cancel} onRetry={() => setAttempt(prev => prev + 1)} />
+
+        {result && matrix && (
+          <>
+            <Tabs value={method} onValueChange={(value) => setMethod(value as CorrelationMethod)}>
+              <TabsList>
+                {(Object.keys(CORRELATION_METHODS) as CorrelationMethod[]).map(key => (
+                  <TabsTrigger key={key} value={key}>{CORRELATION_METHODS[key].label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <p className="text-xs text-muted-foreground">{CORRELATION_METHODS[method].description}</p>
+
+            {matrix.features.length < 2 ? (
+              <p className="text-sm text-muted-foreground">
+                At least two features are needed for {CORRELATION_METHODS[method].label}.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <div
+                  className="grid gap-px text-[10px]"
+                  style={{ gridTemplateColumns: `8rem repeat(${matrix.features.length}, minmax(1.75rem, 1fr))` }}
+                >
+                  <div />
+                  {matrix.features.map(feature => (
+                    <div key={feature} className="h-20 flex items-end justify-center pb-1">
+                      <span className="[writing-mode:vertical-rl] rotate-180 truncate" title={feature}>{feature}</span>
+                    </div>
+                  ))}
+                  {matrix.features.map((rowFeature, i) => (
+                    <div key={rowFeature} className="contents">
+                      <div className="truncate pr-2 text-right self-center" title={rowFeature}>{rowFeature}</div>
+                      {matrix.features.map((columnFeature, j) => {
+                        const value = matrix.values[i][j];
+                        const isSelected = selected?.[0] === rowFeature && selected?.[1] === columnFeature;
+                        return (
+                          <button
+                            key={columnFeature}
+                            type="button"
+                            onClick={() => setSelected([rowFeature, columnFeature])}
+                            title={`${rowFeature} × ${columnFeature}: ${formatValue(value)}`}
+                            className={`aspect-square flex items-center justify-center rounded-sm ${
+                              isSelected ? 'ring-2 ring-foreground' : ''
+                            } ${value !== null && Math.abs(value) > 0.5 ? 'text-white' : ''}`}
+                            style={{ backgroundColor: cellColor(value) }}
+                          >
+                            {showValues && formatValue(value)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {selected && (
+              <div className="bg-muted p-3 rounded space-y-2">
+                <p className="text-sm font-medium">{selected[0]} × {selected[1]}</p>
+                <div className="flex flex-wrap gap-2">
+                  {pairValues.map(({ key, value }) => (
+                    <Badge key={key} variant={key === method ? 'default' : 'outline'}>
+                      {CORRELATION_METHODS[key].label}: {value === undefined ? 'n/a' : formatValue(value)}
+                    </Badge>
+                  ))}
+                </div>
+                {scatterData.length > 0 && selected[0] !== selected[1] && (
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" dataKey="x" name={selected[0]} tick={{ fontSize: 10 }}
+                          label={{ value: `${selected[0]} (scaled)`, position: 'insideBottom', offset: -10, fontSize: 11 }} />
+                        <YAxis type="number" dataKey="y" name={selected[1]} tick={{ fontSize: 10 }} />
+                        <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                        <Scatter data={scatterData} fill="hsl(var(--primary))" fillOpacity={0.4} />
+                      </ScatterChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium mb-1">Variance Inflation Factors</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                How much of each numerical feature the others already explain. Above {HIGH_VIF} a feature is
+                largely redundant; ∞ means it is an exact combination of others, such as FamilySize = SibSp +
+                Parch + 1.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Feature</TableHead>
+                    <TableHead>VIF</TableHead>
+                    <TableHead>Most correlated with</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vifRows.map(row => (
+                    <TableRow key={row.feature}>
+                      <TableCell className="text-sm">{row.feature}</TableCell>
+                      <TableCell className="text-sm">
+                        <span className="flex items-center gap-2">
+                          {formatVif(row.vif)}
+                          {row.vif > HIGH_VIF && <Badge variant="destructive">Redundant</Badge>}
+                          {row.vif > HIGH_VIF / 2 && row.vif <= HIGH_VIF && <Badge variant="secondary">High</Badge>}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {row.partner ? `${row.partner} (r = ${formatValue(row.partnerCorrelation)})` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CorrelationAnalysis;
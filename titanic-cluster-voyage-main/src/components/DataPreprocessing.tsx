@@ -1,42 +1,185 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { CheckCircle, AlertCircle } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { preprocessData, ProcessedData, TitanicPassenger } from '@/utils/dataUtils';
+import {
+  addMissingIndicators,
+  coerceFeatureTypes,
+  engineerFeatures,
+  identifyFeatureTypes,
+  inferColumnTypes,
+  ProcessedData,
+  TitanicPassenger,
+  validatePassengers
+} from '@/utils/dataUtils';
+import {
+  DEFAULT_PIPELINE_CONFIG,
+  normalisePipelineConfig,
+  PipelineConfig,
+  PipelineStepEvent,
+  validatePipelineConfig
+} from '@/utils/pipeline';
+import { checkDerivedColumns, columnTypesFromFeatures, deriveColumns } from '@/utils/formula';
+import { OUTLIER_COLUMN } from '@/utils/outliers';
+import ValidationReportPanel from '@/components/ValidationReportPanel';
+import FeatureColumnSettings from '@/components/FeatureColumnSettings';
+import PipelineConfigEditor from '@/components/PipelineConfigEditor';
+import ImputationSettings, { ImputationColumn } from '@/components/ImputationSettings';
+import ImputationReportPanel from '@/components/ImputationReportPanel';
+import MissingIndicatorSettings from '@/components/MissingIndicatorSettings';
+import ScalingSettings from '@/components/ScalingSettings';
+import EngineeredFeatureSettings from '@/components/EngineeredFeatureSettings';
+import DerivedColumnSettings from '@/components/DerivedColumnSettings';
+import OutlierSettings from '@/components/OutlierSettings';
+import OutlierReportPanel from '@/components/OutlierReportPanel';
+import PipelineStepLog from '@/components/PipelineStepLog';
+import LineagePanel from '@/components/LineagePanel';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
+import { isComputeCancelled } from '@/services/computeClient';
+import { useComputeTask } from '@/hooks/use-compute-task';
+
+const MAX_GROUP_VALUES = 20;
 
 interface DataPreprocessingProps {
   data: TitanicPassenger[];
   onProcessingComplete: (processedData: ProcessedData) => void;
+  initialConfig?: PipelineConfig; // e.g. the configuration of a result reopened from the library
 }
 
-const DataPreprocessing = ({ data, onProcessingComplete }: DataPreprocessingProps) => {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [currentStep, setCurrentStep] = useState('');
+const DataPreprocessing = ({ data, onProcessingComplete, initialConfig }: DataPreprocessingProps) => {
+  const { status, run, cancel } = useComputeTask();
   const [result, setResult] = useState<ProcessedData | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [stepEvents, setStepEvents] = useState<PipelineStepEvent[]>([]);
+  const [invalidAsMissing, setInvalidAsMissing] = useState(false);
+  const [config, setConfig] = useState<PipelineConfig>(
+    initialConfig ? normalisePipelineConfig(initialConfig) : DEFAULT_PIPELINE_CONFIG
+  );
   const [stats, setStats] = useState<{
     rowCount: number;
     columnCount: number;
     missingValues: Record<string, number>;
-    featureTypes: {
-      numerical: string[];
-      categorical: string[];
-    };
   }>({
     rowCount: 0,
     columnCount: 0,
-    missingValues: {},
-    featureTypes: {
-      numerical: [],
-      categorical: []
-    }
+    missingValues: {}
   });
 
+  // Validate rows against the passenger schema; processing waits until invalid values are resolved
+  const validation = useMemo(() => validatePassengers(data), [data]);
+  const hasInvalidValues = validation.report.errors.length > 0;
+  const configProblems = validatePipelineConfig(config);
+
+  // Infer types over the columns that preprocessData will actually see
+  const isStepEnabled = (id: string) => config.steps.some(step => step.id === id && step.enabled);
+  const engineerEnabled = isStepEnabled('engineerFeatures');
+  const deriveEnabled = isStepEnabled('deriveColumns');
+  const indicatorsEnabled = isStepEnabled('missingIndicators');
+  const outliersEnabled = isStepEnabled('treatOutliers');
+  const flagOutliers = outliersEnabled && config.outliers.treatment === 'flag';
+  const baseRows = useMemo(() => {
+    return engineerEnabled
+      ? engineerFeatures(validation.passengers, config.engineeredFeatures)
+      : validation.passengers;
+  }, [validation, engineerEnabled, config.engineeredFeatures]);
+  
+  // Columns formulas can read, typed as the pipeline will see them
+  const formulaColumnTypes = useMemo(() => {
+    const { numericalFeatures, categoricalFeatures } = identifyFeatureTypes(baseRows, config.typeOverrides, ['Survived']);
+    return columnTypesFromFeatures(numericalFeatures, categoricalFeatures);
+  }, [baseRows, config.typeOverrides]);
+  
+  const engineered = useMemo(() => {
+    let rows = baseRows;
+    if (deriveEnabled) {
+      // Formulas with problems are left out of the preview; the derived column settings say what is wrong
+      try {
+        rows = deriveColumns(rows, config.derivedColumns, formulaColumnTypes);
+      } catch {
+        // keep the rows without derived columns
+      }
+    }
+    if (indicatorsEnabled) {
+      const columns = config.missingIndicators.filter(column => rows.some(row => column in row));
+      rows = addMissingIndicators(rows, columns);
+    }
+    if (flagOutliers) {
+      // Which passengers are flagged is only known once imputation has run; the preview needs the column
+      rows = rows.map(row => ({ ...row, [OUTLIER_COLUMN]: 0 }));
+    }
+    return rows;
+  }, [
+    baseRows,
+    deriveEnabled,
+    config.derivedColumns,
+    formulaColumnTypes,
+    indicatorsEnabled,
+    config.missingIndicators,
+    flagOutliers
+  ]);
+  const featureInferences = useMemo(() => {
+    const inferences = inferColumnTypes(engineered);
+    delete inferences.Survived;
+    return inferences;
+  }, [engineered]);
+  const featureTypes = useMemo(
+    () => identifyFeatureTypes(engineered, config.typeOverrides, config.excludedColumns),
+    [engineered, config.typeOverrides, config.excludedColumns]
+  );
+  
+  // Selected features that will need filling, counted after values are converted to their type
+  const imputationColumns = useMemo((): ImputationColumn[] => {
+    const { numericalFeatures, categoricalFeatures } = featureTypes;
+    const typed = coerceFeatureTypes(engineered, numericalFeatures, categoricalFeatures);
+    const count = (column: string) => typed.filter(row => row[column] === null || row[column] === undefined).length;
+    return [
+      ...numericalFeatures.map(column => ({ column, type: 'numerical' as const, missing: count(column) })),
+      ...categoricalFeatures.map(column => ({ column, type: 'categorical' as const, missing: count(column) }))
+    ].filter(column => column.missing > 0);
+  }, [engineered, featureTypes]);
+  
+  // Columns with a handful of distinct values make useful groups for group medians
+  const groupColumns = useMemo(() => {
+    return Object.keys(featureInferences).filter(column => {
+      const distinct = new Set<unknown>();
+      for (const row of engineered) {
+        const value = row[column];
+        if (value === null || value === undefined || value === '') continue;
+        distinct.add(value);
+        if (distinct.size > MAX_GROUP_VALUES) return false;
+      }
+      return distinct.size > 1;
+    });
+  }, [engineered, featureInferences]);
+  
+  // One-hot columns each categorical feature will expand into
+  const dummyCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    featureTypes.categoricalFeatures.forEach(feature => {
+      const values = new Set<string>();
+      engineered.forEach(row => {
+        const value = row[feature];
+        if (value !== null && value !== undefined && value !== '') values.add(String(value));
+      });
+      counts[feature] = values.size;
+    });
+    return counts;
+  }, [engineered, featureTypes]);
+  
+  const hasFeatures = featureTypes.numericalFeatures.length + featureTypes.categoricalFeatures.length > 0;
+  const hasFormulaProblems = deriveEnabled &&
+    checkDerivedColumns(config.derivedColumns, formulaColumnTypes).some(check => check.problem);
+  const canProcess = (!hasInvalidValues || invalidAsMissing) && configProblems.length === 0 && hasFeatures &&
+    !hasFormulaProblems;
+
+  useEffect(() => {
+    setInvalidAsMissing(false);
+  }, [data]);
+
   // Calculate basic stats when data changes
   useEffect(() => {
     if (!data || data.length === 0) return;
@@ -59,91 +202,41 @@ const DataPreprocessing = ({ data, onProcessingComplete }: DataPreprocessingProp
       missingValues[column] = missing;
     });
     
-    // Identify feature types
-    const numerical: string[] = [];
-    const categorical: string[] = [];
-    
-    columns.forEach(column => {
-      // Check first non-null value
-      const firstNonNull = data.find(row => row[column] !== null && row[column] !== undefined);
-      if (firstNonNull) {
-        if (typeof firstNonNull[column] === 'number') {
-          numerical.push(column);
-        } else {
-          categorical.push(column);
-        }
-      } else {
-        categorical.push(column); // Default to categorical if all null
-      }
-    });
-    
     setStats({
       rowCount,
       columnCount,
-      missingValues,
-      featureTypes: {
-        numerical,
-        categorical
-      }
+      missingValues
     });
     
   }, [data]);
 
+  const isProcessing = status.state === 'running';
+
   const handleStartProcessing = async () => {
-    if (!data || data.length === 0) return;
+    if (!data || data.length === 0 || !canProcess) return;
     
-    setIsProcessing(true);
-    setProgress(0);
-    setCurrentStep('Initializing...');
     setError(null);
+    setStepEvents([]);
     
     try {
-      // Simulate steps with progress updates
-      setCurrentStep('Feature engineering...');
-      await simulateProgress(20);
-      
-      setCurrentStep('Handling missing values...');
-      await simulateProgress(40);
-      
-      setCurrentStep('Encoding categorical features...');
-      await simulateProgress(60);
-      
-      setCurrentStep('Standardizing numerical features...');
-      await simulateProgress(80);
-      
-      setCurrentStep('Finalizing...');
-      
-      // Actual processing
-      const processedData = preprocessData(data);
+      // Runs in the compute worker, which reports when each step starts and ends
+      const processedData = await run(
+        'preprocessData',
+        [validation.passengers, { config }],
+        undefined,
+        event => setStepEvents(current => [...current, event])
+      );
       
       setResult(processedData);
-      setProgress(100);
-      setCurrentStep('Processing complete!');
       onProcessingComplete(processedData);
       
     } catch (err) {
+      if (isComputeCancelled(err)) return;
       console.error('Processing error:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
-    } finally {
-      setIsProcessing(false);
     }
   };
 
-  const simulateProgress = (targetProgress: number) => {
-    return new Promise<void>(resolve => {
-      const interval = setInterval(() => {
-        setProgress(prev => {
-          if (prev >= targetProgress) {
-            clearInterval(interval);
-            resolve();
-            return targetProgress;
-          }
-          return prev + 1;
-        });
-      }, 20); // Update progress every 20ms
-    });
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -155,7 +248,28 @@ const DataPreprocessing = ({ data, onProcessingComplete }: DataPreprocessingProp
       <CardContent>
         <div className="space-y-4">
           {/* Data Summary */}
-          <Accordion type="single" collapsible className="w-full">
+          <Accordion
+            type="single"
+            collapsible
+            className="w-full"
+            defaultValue={hasInvalidValues ? 'validation' : undefined}
+          >
+            <AccordionItem value="validation">
+              <AccordionTrigger>
+                <span className="flex items-center gap-2">
+                  Data Validation
+                  {hasInvalidValues && <AlertCircle className="h-4 w-4 text-destructive" />}
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <ValidationReportPanel
+                  report={validation.report}
+                  invalidAsMissing={invalidAsMissing}
+                  onInvalidAsMissingChange={setInvalidAsMissing}
+                />
+              </AccordionContent>
+            </AccordionItem>
+            
             <AccordionItem value="summary">
               <AccordionTrigger>Dataset Summary</AccordionTrigger>
               <AccordionContent>
@@ -175,12 +289,12 @@ const DataPreprocessing = ({ data, onProcessingComplete }: DataPreprocessingProp
                     <p className="text-sm font-medium mb-1">Feature Types</p>
                     <div className="grid grid-cols-2 gap-2">
                       <div className="bg-muted p-2 rounded">
-                        <p className="text-xs text-muted-foreground">Numerical ({stats.featureTypes.numerical.length})</p>
-                        <p className="text-sm">{stats.featureTypes.numerical.join(', ')}</p>
+                        <p className="text-xs text-muted-foreground">Numerical ({featureTypes.numericalFeatures.length})</p>
+                        <p className="text-sm">{featureTypes.numericalFeatures.join(', ')}</p>
                       </div>
                       <div className="bg-muted p-2 rounded">
-                        <p className="text-xs text-muted-foreground">Categorical ({stats.featureTypes.categorical.length})</p>
-                        <p className="text-sm">{stats.featureTypes.categorical.join(', ')}</p>
+                        <p className="text-xs text-muted-foreground">Categorical ({featureTypes.categoricalFeatures.length})</p>
+                        <p className="text-sm">{featureTypes.categoricalFeatures.join(', ')}</p>
                       </div>
                     </div>
                   </div>
@@ -211,65 +325,123 @@ const DataPreprocessing = ({ data, onProcessingComplete }: DataPreprocessingProp
               </AccordionContent>
             </AccordionItem>
             
+            <AccordionItem value="columns">
+              <AccordionTrigger>Feature Columns</AccordionTrigger>
+              <AccordionContent>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Choose the columns that go into the analysis. Types are inferred from every value in each
+                  column; override a type to change how it is imputed and encoded. Values that do not fit the
+                  chosen type are treated as missing.
+                </p>
+                <FeatureColumnSettings
+                  inferences={featureInferences}
+                  excluded={config.excludedColumns}
+                  overrides={config.typeOverrides}
+                  onExcludedChange={(excludedColumns) => setConfig(current => ({ ...current, excludedColumns }))}
+                  onOverridesChange={(typeOverrides) => setConfig(current => ({ ...current, typeOverrides }))}
+                />
+              </AccordionContent>
+            </AccordionItem>
+            
+            <AccordionItem value="derived">
+              <AccordionTrigger>Derived Columns</AccordionTrigger>
+              <AccordionContent>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Add columns computed from a formula, such as Fare / FamilySize or log(Fare + 1). They appear in
+                  the data tables and under Feature Columns, where they can be used for clustering.
+                </p>
+                <DerivedColumnSettings
+                  columnTypes={formulaColumnTypes}
+                  derived={config.derivedColumns}
+                  enabled={deriveEnabled}
+                  onDerivedChange={(derivedColumns) => setConfig(current => ({ ...current, derivedColumns }))}
+                />
+              </AccordionContent>
+            </AccordionItem>
+            
+            <AccordionItem value="imputation">
+              <AccordionTrigger>Missing Value Imputation</AccordionTrigger>
+              <AccordionContent>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Choose how each column's gaps are filled. Group median uses passengers that share the picked
+                  columns, e.g. Age by Title and Pclass; k-nearest neighbours uses the most similar passengers.
+                </p>
+                <ImputationSettings
+                  columns={imputationColumns}
+                  groupColumns={groupColumns}
+                  strategies={config.imputation}
+                  onStrategiesChange={(imputation) => setConfig(current => ({ ...current, imputation }))}
+                />
+                
+                <p className="text-sm font-medium mt-4 mb-1">Missing Value Indicators</p>
+                <MissingIndicatorSettings
+                  missingCounts={Object.fromEntries(
+                    Object.entries(stats.missingValues).filter(([column, count]) => count > 0 && column !== 'Survived')
+                  )}
+                  rowCount={stats.rowCount}
+                  selected={config.missingIndicators}
+                  enabled={indicatorsEnabled}
+                  onSelectedChange={(missingIndicators) => setConfig(current => ({ ...current, missingIndicators }))}
+                />
+              </AccordionContent>
+            </AccordionItem>
+            
+            <AccordionItem value="outliers">
+              <AccordionTrigger>Outliers</AccordionTrigger>
+              <AccordionContent>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Very high fares and very large families stretch the scaled feature space and pull K-means
+                  centroids towards a few passengers. Pick the columns to check and how to treat what is found.
+                </p>
+                <OutlierSettings
+                  numericalFeatures={featureTypes.numericalFeatures.filter(column => column !== OUTLIER_COLUMN)}
+                  outliers={config.outliers}
+                  enabled={outliersEnabled}
+                  onOutliersChange={(outliers) => setConfig(current => ({ ...current, outliers }))}
+                />
+              </AccordionContent>
+            </AccordionItem>
+            
+            <AccordionItem value="scaling">
+              <AccordionTrigger>Feature Scaling</AccordionTrigger>
+              <AccordionContent>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Choose how each feature is scaled before PCA and K-means. Weights multiply a feature's
+                  columns after scaling, so a higher weight gives it more say in cluster distances.
+                </p>
+                <ScalingSettings
+                  numericalFeatures={featureTypes.numericalFeatures}
+                  categoricalFeatures={featureTypes.categoricalFeatures}
+                  dummyCounts={dummyCounts}
+                  scaling={config.scaling}
+                  enabled={isStepEnabled('standardize')}
+                  onScalingChange={(scaling) => setConfig(current => ({ ...current, scaling }))}
+                />
+              </AccordionContent>
+            </AccordionItem>
+            
             <AccordionItem value="preprocessing">
               <AccordionTrigger>Preprocessing Steps</AccordionTrigger>
               <AccordionContent>
-                <div className="space-y-2">
-                  <div className="bg-muted p-3 rounded">
-                    <h4 className="font-medium">1. Feature Engineering</h4>
-                    <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1 mt-1">
-                      <li>Create <code>FamilySize</code> by combining SibSp + Parch + 1</li>
-                      <li>Extract <code>Title</code> from Name field (Mr, Mrs, etc.)</li>
-                      <li>Create <code>HasCabin</code> binary feature based on Cabin availability</li>
-                    </ul>
-                  </div>
-                  
-                  <div className="bg-muted p-3 rounded">
-                    <h4 className="font-medium">2. Feature Selection</h4>
-                    <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1 mt-1">
-                      <li>Remove irrelevant features (PassengerId, Ticket)</li>
-                      <li>Remove Name after extracting Title</li>
-                      <li>Remove Cabin after creating HasCabin (high missingness)</li>
-                      <li>Separate Survived column (target variable)</li>
-                    </ul>
-                  </div>
-                  
-                  <div className="bg-muted p-3 rounded">
-                    <h4 className="font-medium">3. Missing Value Imputation</h4>
-                    <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1 mt-1">
-                      <li>Numerical features: replace with median value</li>
-                      <li>Categorical features: replace with most frequent value</li>
-                    </ul>
-                  </div>
-                  
-                  <div className="bg-muted p-3 rounded">
-                    <h4 className="font-medium">4. Feature Encoding</h4>
-                    <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1 mt-1">
-                      <li>One-hot encode categorical features (Sex, Embarked, Title)</li>
-                    </ul>
-                  </div>
-                  
-                  <div className="bg-muted p-3 rounded">
-                    <h4 className="font-medium">5. Feature Scaling</h4>
-                    <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1 mt-1">
-                      <li>Standardize numerical features (mean=0, std=1)</li>
-                    </ul>
-                  </div>
-                </div>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Turn steps on or off and change their order. Together with the feature columns this forms a
+                  configuration that can be exported and imported to repeat a run exactly.
+                </p>
+                <PipelineConfigEditor config={config} onConfigChange={setConfig} />
+                
+                <p className="text-sm font-medium mt-4 mb-1">Engineered Features</p>
+                <EngineeredFeatureSettings
+                  selected={config.engineeredFeatures}
+                  enabled={engineerEnabled}
+                  onSelectedChange={(engineeredFeatures) => setConfig(current => ({ ...current, engineeredFeatures }))}
+                />
               </AccordionContent>
             </AccordionItem>
           </Accordion>
           
           {/* Processing Status */}
-          {isProcessing && (
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-medium">{currentStep}</span>
-                <span className="text-sm">{progress}%</span>
-              </div>
-              <Progress value={progress} className="w-full" />
-            </div>
-          )}
+          <ComputeStatusBar status={status} onCancel={cancel} />
+          {isProcessing && <PipelineStepLog events={stepEvents} />}
           
           {/* Error Message */}
           {error && (
@@ -296,12 +468,55 @@ const DataPreprocessing = ({ data, onProcessingComplete }: DataPreprocessingProp
               </AlertDescription>
             </Alert>
           )}
+          
+          {/* Time, size and output of each step */}
+          {result?.stepLog && !isProcessing && (
+            <div>
+              <p className="text-sm font-medium mb-1">Pipeline Steps</p>
+              <PipelineStepLog events={[]} records={result.stepLog} />
+            </div>
+          )}
+          
+          {/* Imputed values */}
+          {result?.imputation && !isProcessing && (
+            <div>
+              <p className="text-sm font-medium mb-1">Filled Values</p>
+              <ImputationReportPanel report={result.imputation} />
+            </div>
+          )}
+          
+          {/* Values the steps changed */}
+          {result?.lineage && !isProcessing && (
+            <div>
+              <p className="text-sm font-medium mb-1">Changed Values</p>
+              <LineagePanel lineage={result.lineage} />
+            </div>
+          )}
+          
+          {/* Passengers affected by the outlier step */}
+          {result?.outliers && !isProcessing && (
+            <div>
+              <p className="text-sm font-medium mb-1">Outliers</p>
+              <OutlierReportPanel report={result.outliers} passengers={result.original} />
+            </div>
+          )}
         </div>
       </CardContent>
       <CardFooter className="flex justify-end">
+        {!canProcess && (
+          <p className="text-sm text-muted-foreground mr-auto">
+            {hasInvalidValues && !invalidAsMissing
+              ? 'Review the invalid values under Data Validation to continue'
+              : !hasFeatures
+                ? 'Include at least one feature column to continue'
+                : hasFormulaProblems
+                  ? 'Fix the formulas under Derived Columns to continue'
+                  : 'Fix the preprocessing steps to continue'}
+          </p>
+        )}
         <Button 
           onClick={handleStartProcessing} 
-          disabled={isProcessing || data.length === 0}
+          disabled={isProcessing || data.length === 0 || !canProcess}
         >
           {isProcessing ? 'Processing...' : result ? 'Reprocess Data' : 'Process Data'}
         </Button>
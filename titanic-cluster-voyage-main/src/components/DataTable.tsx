@@ -5,14 +5,28 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { TitanicPassenger } from '@/utils/dataUtils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { CellChange, cellKey } from '@/utils/lineage';
+import { PIPELINE_STEPS } from '@/utils/pipeline';
 
 interface DataTableProps {
   data: TitanicPassenger[];
   clusters?: number[];
+  title?: string;
+  description?: string;
+  lineage?: Map<string, CellChange[]>; // changes per cell, keyed by cellKey; rows must match the processed rows
 }
 
-const DataTable = ({ data, clusters }: DataTableProps) => {
+const formatCell = (value: unknown) => (value !== null && value !== undefined ? String(value) : '');
+
+const DataTable = ({
+  data,
+  clusters,
+  title = 'Dataset Preview',
+  description = 'Preview of the Titanic passenger data',
+  lineage
+}: DataTableProps) => {
   const [currentPage, setCurrentPage] = useState(1);
   const rowsPerPage = 10;
   const totalPages = Math.ceil(data.length / rowsPerPage);
@@ -34,9 +48,9 @@ const DataTable = ({ data, clusters }: DataTableProps) => {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Dataset Preview</CardTitle>
+        <CardTitle>{title}</CardTitle>
         <CardDescription>
-          Preview of the Titanic passenger data
+          {description}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -70,13 +84,33 @@ const DataTable = ({ data, clusters }: DataTableProps) => {
                         </span>
                       </TableCell>
                     )}
-                    {headers.map(header => (
-                      <TableCell key={`${rowIndex}-${header}`}>
-                        {row[header] !== null && row[header] !== undefined 
-                          ? String(row[header])
-                          : ''}
-                      </TableCell>
-                    ))}
+                    {headers.map(header => {
+                      const changes = lineage?.get(cellKey(startIndex + rowIndex, header));
+                      if (!changes) {
+                        return <TableCell key={`${rowIndex}-${header}`}>{formatCell(row[header])}</TableCell>;
+                      }
+                      
+                      // Changed cells show the value that went into the analysis, with its history on hover
+                      return (
+                        <TableCell key={`${rowIndex}-${header}`} className="bg-amber-100 dark:bg-amber-900/40">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <span className="underline decoration-dotted cursor-help">
+                                {formatCell(changes[changes.length - 1].after)}
+                              </span>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p className="text-xs">Original: {formatCell(changes[0].before) || '(missing)'}</p>
+                              {changes.map(change => (
+                                <p key={change.step} className="text-xs">
+                                  {PIPELINE_STEPS[change.step].label}: {formatCell(change.after) || '(missing)'}
+                                </p>
+                              ))}
+                            </TooltipContent>
+                          </Tooltip>
+                        </TableCell>
+                      );
+                    })}
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Check, Copy, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import { DatasetSummary } from '@/services/datasetLibrary';
+
+interface DatasetLibraryProps {
+  datasets: DatasetSummary[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const DatasetLibrary = ({
+  datasets,
+  activeId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete
+}: DatasetLibraryProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (dataset: DatasetSummary) => {
+    setEditingId(dataset.id);
+    setDraftName(dataset.name);
+  };
+
+  const confirmRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  const handleDelete = (dataset: DatasetSummary) => {
+    if (window.confirm(`Delete "${dataset.name}" from the library?`)) {
+      onDelete(dataset.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dataset Library</CardTitle>
+        <CardDescription>
+          Uploaded datasets are kept in this browser and can be reopened with their latest results
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {datasets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved datasets yet. Upload a file to add one.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto pr-3">
+            <ul className="space-y-2">
+              {datasets.map(dataset => {
+                const numerical = dataset.schema.filter(column => column.type === 'numerical').length;
+                const categorical = dataset.schema.length - numerical;
+
+                return (
+                  <li
+                    key={dataset.id}
+                    className={`rounded-md border p-2 ${dataset.id === activeId ? 'border-primary' : ''}`}
+                  >
+                    {editingId === dataset.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={draftName}
+                          onChange={(e) => setDraftName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') confirmRename();
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="h-7 text-xs"
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={confirmRename} aria-label="Save name">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-sm font-medium truncate" title={dataset.name}>{dataset.name}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {dataset.rowCount} rows · uploaded {formatDate(dataset.uploadedAt)}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      <Badge
+                        variant="secondary"
+                        title={dataset.schema.map(column => `${column.column}: ${column.type}`).join('\n')}
+                      >
+                        {numerical} numerical · {categorical} categorical
+                      </Badge>
+                      {dataset.hasResults && <Badge variant="outline">Results saved</Badge>}
+                    </div>
+                    <div className="flex items-center gap-1 mt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => onOpen(dataset.id)}
+                        disabled={dataset.id === activeId}
+                      >
+                        <FolderOpen className="h-4 w-4 mr-1" />
+                        Open
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(dataset)} aria-label={`Rename ${dataset.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDuplicate(dataset.id)} aria-label={`Duplicate ${dataset.name}`}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(dataset)} aria-label={`Delete ${dataset.name}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DatasetLibrary;
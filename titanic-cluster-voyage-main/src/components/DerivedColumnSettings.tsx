@@ -0,0 +1,98 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import { checkDerivedColumns, DerivedColumn, FORMULA_FUNCTIONS, FormulaColumnTypes } from '@/utils/formula';
+
+interface DerivedColumnSettingsProps {
+  columnTypes: FormulaColumnTypes; // columns formulas can read, after feature engineering
+  derived: DerivedColumn[];
+  enabled: boolean; // whether the derived columns step is turned on
+  onDerivedChange: (derived: DerivedColumn[]) => void;
+}
+
+const TYPE_LABELS = {
+  number: 'numerical',
+  string: 'categorical',
+  boolean: 'numerical, 1 or 0'
+};
+
+const DerivedColumnSettings = ({ columnTypes, derived, enabled, onDerivedChange }: DerivedColumnSettingsProps) => {
+  const checks = checkDerivedColumns(derived, columnTypes);
+
+  const update = (index: number, change: Partial<DerivedColumn>) => {
+    onDerivedChange(derived.map((column, i) => (i === index ? { ...column, ...change } : column)));
+  };
+
+  const handleAdd = () => {
+    let n = derived.length + 1;
+    while (derived.some(column => column.name === `Derived${n}`) || `Derived${n}` in columnTypes) n++;
+    onDerivedChange([...derived, { name: `Derived${n}`, formula: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {!enabled && (
+        <p className="text-xs text-muted-foreground">
+          Turn on "Derived columns" under Preprocessing Steps to add these columns.
+        </p>
+      )}
+
+      {derived.map((column, index) => (
+        <div key={index} className="space-y-1">
+          <div className="grid grid-cols-[8rem_1fr_auto] gap-2 items-center">
+            <Input
+              value={column.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              placeholder="Name"
+              className="h-8 text-xs"
+            />
+            <Input
+              value={column.formula}
+              onChange={(e) => update(index, { formula: e.target.value })}
+              placeholder='e.g. Age < 16 and Sex == "male"'
+              className="h-8 text-xs font-mono"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onDerivedChange(derived.filter((_, i) => i !== index))}
+              aria-label={`Remove ${column.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {checks[index].problem ? (
+            <p className="text-xs text-destructive">{checks[index].problem}</p>
+          ) : (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">{TYPE_LABELS[checks[index].type!]}</Badge>
+          )}
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={handleAdd}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add column
+      </Button>
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        <p>
+          Operators: + - * / % ^, comparisons == != &lt; &lt;= &gt; &gt;=, and, or, not. Text goes in "quotes";
+          column names with spaces go in `backticks`. A formula that reads a missing value gives a missing value.
+        </p>
+        <p>
+          Functions:{' '}
+          {Object.entries(FORMULA_FUNCTIONS).map(([name, fn], i) => (
+            <span key={name} title={fn.description}>
+              {i > 0 && ', '}
+              <code>{name}</code>
+            </span>
+          ))}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DerivedColumnSettings;
@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  CSVDialect,
+  CSVEncoding,
+  DecimalSeparator,
+  DELIMITER_OPTIONS,
+  ENCODING_OPTIONS,
+  previewWithDialect
+} from '@/utils/csvDialect';
+
+interface DialectPreviewProps {
+  bytes: Uint8Array;
+  isTruncated: boolean;
+  dialect: CSVDialect;
+  detected: CSVDialect;
+  onDialectChange: (dialect: CSVDialect) => void;
+}
+
+const DialectPreview = ({ bytes, isTruncated, dialect, detected, onDialectChange }: DialectPreviewProps) => {
+  const preview = useMemo(
+    () => previewWithDialect(bytes, dialect, isTruncated),
+    [bytes, dialect, isTruncated]
+  );
+
+  const detectedLabel = (isDetected: boolean) =>
+    isDetected ? <span className="text-muted-foreground"> (detected)</span> : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">File Format</h4>
+        {dialect.hasBOM && <Badge variant="secondary">Byte order mark removed</Badge>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Delimiter</Label>
+          <Select
+            value={dialect.delimiter}
+            onValueChange={(value) => onDialectChange({ ...dialect, delimiter: value })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITER_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}{detectedLabel(option.value === detected.delimiter)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Encoding</Label>
+          <Select
+            value={dialect.encoding}
+            onValueChange={(value) => onDialectChange({ ...dialect, encoding: value as CSVEncoding })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENCODING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}{detectedLabel(option.value === detected.encoding)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Decimal</Label>
+          <Select
+            value={dialect.decimalSeparator}
+            onValueChange={(value) => onDialectChange({ ...dialect, decimalSeparator: value as DecimalSeparator })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=".">Point (1.5){detectedLabel(detected.decimalSeparator === '.')}</SelectItem>
+              <SelectItem value=",">Comma (1,5){detectedLabel(detected.decimalSeparator === ',')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <ScrollArea className="w-full border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {preview.headers.map((header, index) => (
+                <TableHead key={index} className="text-xs whitespace-nowrap">{header}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((value, index) => (
+                  <TableCell key={index} className="text-xs whitespace-nowrap py-1">{value}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <ScrollBar orientation="horizontal" />
+      </ScrollArea>
+      <p className="text-xs text-muted-foreground">
+        {preview.headers.length} columns detected. Check the preview, then load the file.
+      </p>
+    </div>
+  );
+};
+
+export default DialectPreview;
@@ -0,0 +1,44 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { ENGINEERED_FEATURES, EngineeredFeatureId } from '@/utils/dataUtils';
+
+interface EngineeredFeatureSettingsProps {
+  selected: EngineeredFeatureId[];
+  enabled: boolean; // whether the feature engineering step is turned on
+  onSelectedChange: (selected: EngineeredFeatureId[]) => void;
+}
+
+const EngineeredFeatureSettings = ({ selected, enabled, onSelectedChange }: EngineeredFeatureSettingsProps) => {
+  // Keep the listed order so exported configurations stay stable
+  const toggle = (feature: EngineeredFeatureId, checked: boolean) => {
+    onSelectedChange((Object.keys(ENGINEERED_FEATURES) as EngineeredFeatureId[])
+      .filter(id => (id === feature ? checked : selected.includes(id))));
+  };
+
+  return (
+    <div className="space-y-2">
+      {!enabled && (
+        <p className="text-xs text-muted-foreground">
+          Turn on "Feature engineering" above to add these features.
+        </p>
+      )}
+      <div className="grid gap-2 sm:grid-cols-2">
+        {(Object.keys(ENGINEERED_FEATURES) as EngineeredFeatureId[]).map(feature => (
+          <div key={feature} className={`flex items-start space-x-2 ${enabled ? '' : 'opacity-60'}`}>
+            <Checkbox
+              id={`engineered-${feature}`}
+              checked={selected.includes(feature)}
+              onCheckedChange={(checked) => toggle(feature, checked === true)}
+              className="mt-0.5"
+            />
+            <label htmlFor={`engineered-${feature}`} className="text-sm leading-snug">
+              <span className="font-medium">{ENGINEERED_FEATURES[feature].label}</span>
+              <span className="block text-xs text-muted-foreground">{ENGINEERED_FEATURES[feature].description}</span>
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EngineeredFeatureSettings;
@@ -0,0 +1,122 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ColumnTypeInference, FeatureType, FeatureTypeOverrides } from '@/utils/dataUtils';
+
+interface FeatureColumnSettingsProps {
+  inferences: Record<string, ColumnTypeInference>;
+  excluded: string[];
+  overrides: FeatureTypeOverrides;
+  onExcludedChange: (excluded: string[]) => void;
+  onOverridesChange: (overrides: FeatureTypeOverrides) => void;
+}
+
+const AUTO = 'auto';
+
+const TYPE_LABELS: Record<FeatureType, string> = {
+  numerical: 'Numerical',
+  categorical: 'Categorical'
+};
+
+const FeatureColumnSettings = ({
+  inferences,
+  excluded,
+  overrides,
+  onExcludedChange,
+  onOverridesChange
+}: FeatureColumnSettingsProps) => {
+  const columns = Object.keys(inferences);
+
+  const handleTypeChange = (column: string, value: string) => {
+    const next = { ...overrides };
+    if (value === AUTO) {
+      delete next[column];
+    } else {
+      next[column] = value as FeatureType;
+    }
+    onOverridesChange(next);
+  };
+
+  const handleIncludedChange = (column: string, included: boolean) => {
+    onExcludedChange(included
+      ? excluded.filter(c => c !== column)
+      : [...excluded, column]);
+  };
+
+  // Exclusions for columns not in this dataset are kept so a shared configuration stays intact
+  const setAllIncluded = (included: boolean) => {
+    const others = excluded.filter(c => !columns.includes(c));
+    onExcludedChange(included ? others : [...others, ...columns]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setAllIncluded(true)}>
+          Include all
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setAllIncluded(false)}>
+          Exclude all
+        </Button>
+      </div>
+      {Object.entries(inferences).map(([column, inference]) => {
+        const isUncertain = inference.confidence < 1 && inference.nonMissing > 0;
+        const isIncluded = !excluded.includes(column);
+
+        return (
+          <div key={column} className="grid grid-cols-2 gap-2 items-center">
+            <div className="flex items-start gap-2 min-w-0">
+              <Checkbox
+                id={`include-${column}`}
+                checked={isIncluded}
+                onCheckedChange={(checked) => handleIncludedChange(column, checked === true)}
+                className="mt-0.5"
+              />
+              <div className="min-w-0">
+                <label
+                  htmlFor={`include-${column}`}
+                  className={`block text-sm font-medium truncate ${isIncluded ? '' : 'text-muted-foreground line-through'}`}
+                  title={column}
+                >
+                  {column}
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  {inference.nonMissing === 0
+                    ? 'No values'
+                    : `${(inference.confidence * 100).toFixed(1)}% ${inference.type}`}
+                  {overrides[column] && (
+                    <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">Overridden</Badge>
+                  )}
+                </p>
+                {isUncertain && (
+                  <p className="text-xs text-amber-600 truncate">
+                    Conflicts: {inference.conflicts
+                      .map(conflict => `${JSON.stringify(conflict.value)} ×${conflict.count}`)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+            <Select
+              value={overrides[column] ?? AUTO}
+              onValueChange={(value) => handleTypeChange(column, value)}
+              disabled={!isIncluded}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO}>Auto ({TYPE_LABELS[inference.type]})</SelectItem>
+                <SelectItem value="numerical">{TYPE_LABELS.numerical}</SelectItem>
+                <SelectItem value="categorical">{TYPE_LABELS.categorical}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FeatureColumnSettings;
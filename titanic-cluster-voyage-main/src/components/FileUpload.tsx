@@ -3,49 +3,226 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { parseCSV } from '@/utils/dataUtils';
-import { UploadCloud } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CSVIssue, CSVTable, toPassengers } from '@/utils/csvParser';
+import { runCompute } from '@/services/computeClient';
+import { CSVDialect, readSample, sniffDialect } from '@/utils/csvDialect';
+import { combineSplits, splitNameFromFile, TitanicPassenger } from '@/utils/dataUtils';
+import {
+  applyColumnMapping,
+  applyMappingProfile,
+  ColumnMapping,
+  findDuplicateTargets,
+  findMatchingProfile,
+  isCanonicalMapping,
+  loadMappingProfiles,
+  MappingSuggestion,
+  suggestionsToMapping,
+  suggestMapping
+} from '@/utils/columnMapping';
+import {
+  DEFAULT_EXAMPLE_DATASET,
+  EXAMPLE_DATASETS,
+  isDatasetAvailable,
+  isDatasetBundled,
+  loadExampleDataset
+} from '@/data/exampleDatasets';
+import { DEFAULT_SYNTHETIC_OPTIONS, MAX_SYNTHETIC_ROWS, SyntheticOptions } from '@/utils/syntheticData';
+import { randomSeed } from '@/utils/random';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, Dices, UploadCloud } from 'lucide-react';
+import ParseIssueList from '@/components/ParseIssueList';
+import DialectPreview from '@/components/DialectPreview';
+import ColumnMappingStep from '@/components/ColumnMappingStep';
 
 interface FileUploadProps {
-  onDataLoaded: (data: any[]) => void;
+  onDataLoaded: (data: TitanicPassenger[], name: string) => void; // name is used for the dataset library
   isLoading: boolean;
 }
 
+interface FileSample {
+  bytes: Uint8Array;
+  isTruncated: boolean;
+  detected: CSVDialect;
+}
+
+interface SelectedFile {
+  file: File;
+  split: string;
+  sample: FileSample;
+  dialect: CSVDialect;
+}
+
+interface LoadedTable {
+  source: SelectedFile;
+  table: CSVTable;
+}
+
+// Headers of all loaded files, in first-seen order
+const mergeHeaders = (tables: LoadedTable[]): string[] => {
+  return [...new Set(tables.flatMap(({ table }) => table.headers))];
+};
+
+// Example rows from every file, aligned with the merged headers
+const mergeSampleRows = (tables: LoadedTable[], headers: string[]): string[][] => {
+  return tables.flatMap(({ table }) =>
+    table.records.slice(0, 10).map(record =>
+      headers.map(header => {
+        const index = table.headers.indexOf(header);
+        return index >= 0 ? record[index] : '';
+      })
+    )
+  );
+};
+
 const FileUpload = ({ onDataLoaded, isLoading }: FileUploadProps) => {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<SelectedFile[]>([]);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [tables, setTables] = useState<LoadedTable[] | null>(null);
+  const [suggestions, setSuggestions] = useState<Record<string, MappingSuggestion>>({});
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [issues, setIssues] = useState<CSVIssue[]>([]);
+  const [exampleId, setExampleId] = useState<string>(DEFAULT_EXAMPLE_DATASET);
+  const [synthetic, setSynthetic] = useState<SyntheticOptions>(DEFAULT_SYNTHETIC_OPTIONS);
+  const [isGenerating, setIsGenerating] = useState(false);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      setFile(e.target.files[0]);
+      const selected = Array.from(e.target.files);
+      setFiles([]);
+      setPreviewIndex(0);
+      setTables(null);
+      setIssues([]);
+
+      try {
+        // Sniff the format of each file from its first bytes so the user can confirm it
+        const sniffed = await Promise.all(selected.map(async file => {
+          const { bytes, isTruncated } = await readSample(file);
+          const detected = sniffDialect(bytes, isTruncated);
+          return {
+            file,
+            split: splitNameFromFile(file.name),
+            sample: { bytes, isTruncated, detected },
+            dialect: detected
+          };
+        }));
+        setFiles(sniffed);
+      } catch (error) {
+        console.error('Error reading file:', error);
+        alert('Error reading file. Please ensure it is a valid CSV.');
+      }
     }
   };
 
+  const updateFile = (index: number, changes: Partial<SelectedFile>) => {
+    setFiles(current => current.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  };
+
+  // Convert the tables with the confirmed mapping and hand the passengers over
+  const finishLoading = (loaded: LoadedTable[], confirmedMapping: ColumnMapping) => {
+    const isMultiFile = loaded.length > 1;
+
+    const parts = loaded.map(({ source, table }) => {
+      const result = toPassengers(
+        applyColumnMapping(table, confirmedMapping),
+        { decimalSeparator: source.dialect.decimalSeparator }
+      );
+      return {
+        split: source.split,
+        passengers: result.passengers,
+        issues: isMultiFile
+          ? result.issues.map(issue => ({ ...issue, file: source.file.name }))
+          : result.issues
+      };
+    });
+
+    setTables(null);
+    setIssues(parts.flatMap(part => part.issues));
+    onDataLoaded(
+      isMultiFile ? combineSplits(parts) : parts[0].passengers,
+      loaded.map(({ source }) => source.file.name).join(' + ')
+    );
+  };
+
   const handleUpload = async () => {
-    if (!file) return;
+    if (files.length === 0) return;
 
     try {
-      const text = await file.text();
-      const data = parseCSV(text);
-      onDataLoaded(data);
+      const loaded = await Promise.all(files.map(async source => ({
+        source,
+        // Parsed in the compute worker so large files do not block the page
+        table: await runCompute('readCSVFile', [source.file, {
+          delimiter: source.dialect.delimiter,
+          decimalSeparator: source.dialect.decimalSeparator,
+          encoding: source.dialect.encoding
+        }]).promise
+      })));
+
+      // One mapping covers all files; test.csv simply lacks the Survived column
+      const headers = mergeHeaders(loaded);
+      const suggested = suggestMapping(headers);
+      const suggestedMapping = suggestionsToMapping(suggested);
+      const profile = findMatchingProfile(headers, loadMappingProfiles());
+      const initialMapping = profile
+        ? applyMappingProfile(headers, profile, suggestedMapping)
+        : suggestedMapping;
+
+      // Files that already use the Kaggle headers need no mapping step
+      if (!profile && isCanonicalMapping(headers, initialMapping)) {
+        finishLoading(loaded, initialMapping);
+        return;
+      }
+
+      setTables(loaded);
+      setSuggestions(suggested);
+      setMapping(initialMapping);
     } catch (error) {
       console.error('Error parsing CSV:', error);
       alert('Error loading file. Please ensure it is a valid CSV.');
     }
   };
 
+  const handleConfirmMapping = () => {
+    if (!tables) return;
+    finishLoading(tables, mapping);
+  };
+
+  const exampleDataset = EXAMPLE_DATASETS.find(d => d.id === exampleId);
+  const exampleAvailable = exampleDataset ? isDatasetAvailable(exampleDataset) : false;
+  
   const handleExampleData = async () => {
     try {
-      // Using example Titanic data
-      const response = await fetch('https://raw.githubusercontent.com/datasciencedojo/datasets/master/titanic.csv');
-      const text = await response.text();
-      const data = parseCSV(text);
-      onDataLoaded(data);
+      // Bundled files load offline; the training set is downloaded when it was not bundled
+      const { passengers, issues } = await loadExampleDataset(exampleId);
+      setTables(null);
+      setIssues(issues);
+      onDataLoaded(passengers, exampleDataset?.name ?? exampleId);
     } catch (error) {
       console.error('Error loading example data:', error);
-      alert('Error loading example data. Please try again later.');
+      alert(`Error loading example data: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleGenerateSynthetic = async () => {
+    setIsGenerating(true);
+    try {
+      const passengers = await runCompute('generateSyntheticPassengers', [synthetic]).promise;
+      setTables(null);
+      setIssues([]);
+      onDataLoaded(passengers, `Synthetic (${synthetic.rows} rows, seed ${synthetic.seed})`);
+    } catch (error) {
+      console.error('Error generating synthetic data:', error);
+      alert(`Error generating synthetic data: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsGenerating(false);
     }
   };
 
+  const updateSynthetic = (changes: Partial<SyntheticOptions>) => {
+    setSynthetic(current => ({ ...current, ...changes }));
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -59,37 +236,178 @@ const FileUpload = ({ onDataLoaded, isLoading }: FileUploadProps) => {
           <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center hover:border-primary/50 transition-colors">
             <UploadCloud className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-sm text-muted-foreground mb-2">
-              Drag and drop your CSV file here or click to browse
+              Drag and drop your CSV files here or click to browse
+            </p>
+            <p className="text-xs text-muted-foreground mb-2">
+              Select train.csv and test.csv together to analyse both
             </p>
             <Input
               id="file-upload"
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt"
+              multiple
               onChange={handleFileChange}
               className="mx-auto max-w-xs cursor-pointer"
             />
           </div>
-          {file && (
-            <p className="text-sm">
-              Selected: <span className="font-medium">{file.name}</span> ({(file.size / 1024).toFixed(2)} KB)
-            </p>
+          {files.length > 0 && !tables && (
+            <div className="space-y-2">
+              {files.map((selected, index) => (
+                <div
+                  key={selected.file.name}
+                  className={`flex items-center justify-between gap-2 rounded-md border p-2 cursor-pointer ${
+                    index === previewIndex ? 'border-primary' : ''
+                  }`}
+                  onClick={() => setPreviewIndex(index)}
+                >
+                  <p className="text-sm min-w-0 truncate">
+                    <span className="font-medium">{selected.file.name}</span> ({(selected.file.size / 1024).toFixed(2)} KB)
+                  </p>
+                  {files.length > 1 && (
+                    <Input
+                      value={selected.split}
+                      onChange={(e) => updateFile(index, { split: e.target.value })}
+                      onClick={(e) => e.stopPropagation()}
+                      aria-label={`Split name for ${selected.file.name}`}
+                      className="h-7 w-24 text-xs"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
           )}
+          {files[previewIndex] && !tables && (
+            <DialectPreview
+              bytes={files[previewIndex].sample.bytes}
+              isTruncated={files[previewIndex].sample.isTruncated}
+              dialect={files[previewIndex].dialect}
+              detected={files[previewIndex].sample.detected}
+              onDialectChange={(dialect) => updateFile(previewIndex, { dialect })}
+            />
+          )}
+          {tables && (
+            <ColumnMappingStep
+              headers={mergeHeaders(tables)}
+              sampleRows={mergeSampleRows(tables, mergeHeaders(tables))}
+              suggestions={suggestions}
+              mapping={mapping}
+              onMappingChange={setMapping}
+            />
+          )}
+          <Collapsible className="rounded-md border p-2">
+            <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium">
+              Generate synthetic dataset
+              <ChevronDown className="h-4 w-4" />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-3 pt-3">
+              <p className="text-xs text-muted-foreground">
+                Fake passengers that follow the Kaggle distributions. The same seed always gives the same rows.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="synthetic-rows" className="text-xs">Rows</Label>
+                  <Input
+                    id="synthetic-rows"
+                    type="number"
+                    min={1}
+                    max={MAX_SYNTHETIC_ROWS}
+                    value={synthetic.rows}
+                    onChange={(e) => updateSynthetic({ rows: Number(e.target.value) })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="synthetic-seed" className="text-xs">Seed</Label>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      id="synthetic-seed"
+                      type="number"
+                      min={0}
+                      value={synthetic.seed}
+                      onChange={(e) => updateSynthetic({ seed: Number(e.target.value) })}
+                      className="h-8 text-xs"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => updateSynthetic({ seed: randomSeed() })}
+                      aria-label="Random seed"
+                    >
+                      <Dices className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="synthetic-missing" className="text-xs">Missing %</Label>
+                  <Input
+                    id="synthetic-missing"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(synthetic.missingRate * 100)}
+                    onChange={(e) => updateSynthetic({ missingRate: Number(e.target.value) / 100 })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleGenerateSynthetic}
+                disabled={isGenerating || isLoading || !(synthetic.rows >= 1 && synthetic.rows <= MAX_SYNTHETIC_ROWS)}
+              >
+                {isGenerating ? 'Generating...' : 'Generate'}
+              </Button>
+            </CollapsibleContent>
+          </Collapsible>
+          <ParseIssueList issues={issues} />
         </div>
       </CardContent>
-      <CardFooter className="flex justify-between">
-        <Button 
-          variant="outline" 
-          onClick={handleExampleData}
-          disabled={isLoading}
-        >
-          Use Example Data
-        </Button>
-        <Button 
-          onClick={handleUpload} 
-          disabled={!file || isLoading}
-        >
-          Upload & Analyze
-        </Button>
+      <CardFooter className="flex justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Select value={exampleId} onValueChange={setExampleId}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXAMPLE_DATASETS.map(dataset => (
+                <SelectItem
+                  key={dataset.id}
+                  value={dataset.id}
+                  disabled={!isDatasetAvailable(dataset)}
+                  title={dataset.description}
+                >
+                  {dataset.name}
+                  {!isDatasetAvailable(dataset) ? ' (not bundled)' : !isDatasetBundled(dataset) && ' (downloads)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button 
+            variant="outline" 
+            onClick={handleExampleData}
+            disabled={isLoading || !exampleAvailable}
+            title={exampleAvailable ? undefined : 'This dataset is not bundled with this build'}
+          >
+            Use Example Data
+          </Button>
+        </div>
+        {tables ? (
+          <Button
+            onClick={handleConfirmMapping}
+            disabled={findDuplicateTargets(mapping).length > 0 || isLoading}
+          >
+            Confirm Mapping
+          </Button>
+        ) : (
+          <Button 
+            onClick={handleUpload} 
+            disabled={files.length === 0 || files.some(f => !f.split.trim()) || isLoading}
+          >
+            Upload & Analyze
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, Download } from 'lucide-react';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
+import DataTable from '@/components/DataTable';
+import ImputationReportPanel from '@/components/ImputationReportPanel';
+import { isComputeCancelled } from '@/services/computeClient';
+import { predictClusters } from '@/services/mlService';
+import { useComputeTask } from '@/hooks/use-compute-task';
+import { applyColumnMapping, suggestionsToMapping, suggestMapping } from '@/utils/columnMapping';
+import { readSample, sniffDialect } from '@/utils/csvDialect';
+import { toPassengers } from '@/utils/csvParser';
+import { ProcessedData, validatePassengers, withColumns } from '@/utils/dataUtils';
+import { PREPROCESSING_MODEL_VERSION, TransformResult } from '@/utils/pipeline';
+
+interface HoldoutTransformProps {
+  processedData: ProcessedData;
+  originalClusters: number[];
+}
+
+const csvValue = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const HoldoutTransform = ({ processedData, originalClusters }: HoldoutTransformProps) => {
+  const { status, run, cancel } = useComputeTask();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<TransformResult | null>(null);
+  const [clusters, setClusters] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Models from earlier versions cannot be applied; the data has to be processed again
+  const model = processedData.model?.version === PREPROCESSING_MODEL_VERSION ? processedData.model : undefined;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !model) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+
+    try {
+      // Read with the detected dialect and the suggested column mapping, as for uploads without a review step
+      const { bytes, isTruncated } = await readSample(file);
+      const dialect = sniffDialect(bytes, isTruncated);
+      const table = await run('readCSVFile', [file, {
+        delimiter: dialect.delimiter,
+        decimalSeparator: dialect.decimalSeparator,
+        encoding: dialect.encoding
+      }], 'Reading');
+      const mapping = suggestionsToMapping(suggestMapping(table.headers));
+      const { passengers } = toPassengers(applyColumnMapping(table, mapping), {
+        decimalSeparator: dialect.decimalSeparator
+      });
+
+      // Invalid values become missing and are imputed like any other gap
+      const transformed = await run(
+        'transformWithModel',
+        [model, validatePassengers(passengers).passengers],
+        'Transforming'
+      );
+      setResult(transformed);
+      setClusters(predictClusters(processedData.processed, originalClusters, transformed.processed));
+    } catch (err) {
+      if (isComputeCancelled(err)) return;
+      console.error('Holdout transform error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const rows = withColumns(result.original, result.derivedColumns);
+    const headers = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const lines = [
+      [...headers, 'Cluster'].map(csvValue).join(','),
+      ...rows.map((row, i) => [...headers.map(header => row[header]), clusters[i]].map(csvValue).join(','))
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(fileName ?? 'holdout').replace(/\.[^.]+$/, '')}-clusters.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const clusterCounts = clusters.reduce<Record<number, number>>((counts, cluster) => {
+    counts[cluster] = (counts[cluster] || 0) + 1;
+    return counts;
+  }, {});
+
+  const report = result?.report;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Score New Passengers</CardTitle>
+        <CardDescription>
+          Transform a holdout file with the fitted preprocessing model and assign each passenger to the
+          nearest original-space cluster
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!model ? (
+          <p className="text-sm text-muted-foreground">
+            These results were saved without a current preprocessing model. Process the data again to fit one.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={status.state === 'running'}
+                className="max-w-sm"
+              />
+              <span className="text-xs text-muted-foreground">
+                Model fitted on {model.fittedRows} rows, {model.features.length} features
+              </span>
+            </div>
+
+            <ComputeStatusBar status={status} onCancel={cancel} />
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {result && report && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">{report.rowCount} passengers:</span>
+                  {Object.entries(clusterCounts).map(([cluster, count]) => (
+                    <Badge key={cluster} variant="secondary">Cluster {cluster}: {count}</Badge>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={handleDownload} className="ml-auto">
+                    <Download className="h-4 w-4 mr-1" />
+                    Download with clusters
+                  </Button>
+                </div>
+
+                {(report.missingColumns.length > 0 || report.extraColumns.length > 0 ||
+                  report.unseenCategories.length > 0) && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Differences from the training data</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc list-inside text-sm space-y-1">
+                        {report.missingColumns.length > 0 && (
+                          <li>Missing columns, imputed for every row: {report.missingColumns.join(', ')}</li>
+                        )}
+                        {report.extraColumns.length > 0 && (
+                          <li>Columns the model does not know, ignored: {report.extraColumns.join(', ')}</li>
+                        )}
+                        {report.unseenCategories.length > 0 && (
+                          <li>
+                            Categories not seen in training, encoded as zeros:{' '}
+                            {report.unseenCategories
+                              .map(({ feature, value, count }) => `${feature} "${value}" ×${count}`)
+                              .join(', ')}
+                          </li>
+                        )}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div>
+                  <p className="text-sm font-medium mb-1">Filled Values</p>
+                  <ImputationReportPanel report={report.imputation} />
+                </div>
+
+                <DataTable
+                  data={withColumns(result.original.slice(0, 100), result.derivedColumns)}
+                  clusters={clusters.slice(0, 100)}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HoldoutTransform;
@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import { IMPUTATION_METHODS, ImputationReport } from '@/utils/imputation';
+
+interface ImputationReportPanelProps {
+  report: ImputationReport;
+}
+
+const formatValue = (value: string | number) =>
+  typeof value === 'number' ? String(Math.round(value * 100) / 100) : JSON.stringify(value);
+
+const ImputationReportPanel = ({ report }: ImputationReportPanelProps) => {
+  if (report.length === 0) {
+    return <p className="text-sm text-muted-foreground">No values needed to be filled in.</p>;
+  }
+
+  return (
+    <div className="max-h-72 overflow-y-auto">
+      <div className="space-y-2 pr-3">
+        {report.map(entry => (
+          <div key={entry.column} className="bg-muted p-2 rounded">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">{entry.column}</span>
+              <span className="flex items-center gap-2">
+                <Badge variant="outline">{IMPUTATION_METHODS[entry.method].label}</Badge>
+                <Badge variant="secondary">{entry.filled} filled</Badge>
+              </span>
+            </div>
+            <ul className="text-xs text-muted-foreground mt-1 space-y-0.5">
+              {entry.fills.map(fill => (
+                <li key={`${fill.group ?? ''}-${fill.value}`} className="flex justify-between gap-2">
+                  <span className="truncate">
+                    {fill.group ? `${fill.group} → ` : ''}{formatValue(fill.value)}
+                  </span>
+                  <span>×{fill.count}</span>
+                </li>
+              ))}
+            </ul>
+            {entry.distinctFills > entry.fills.length && (
+              <p className="text-xs text-muted-foreground mt-1">
+                +{entry.distinctFills - entry.fills.length} more distinct values
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ImputationReportPanel;
@@ -0,0 +1,140 @@
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FeatureType } from '@/utils/dataUtils';
+import {
+  DEFAULT_KNN_NEIGHBOURS,
+  IMPUTATION_METHODS,
+  ImputationMethod,
+  ImputationStrategies,
+  ImputationStrategy,
+  resolveImputationMethod
+} from '@/utils/imputation';
+
+export interface ImputationColumn {
+  column: string;
+  type: FeatureType;
+  missing: number;
+}
+
+interface ImputationSettingsProps {
+  columns: ImputationColumn[];
+  groupColumns: string[]; // columns with few distinct values, usable for group medians
+  strategies: ImputationStrategies;
+  onStrategiesChange: (strategies: ImputationStrategies) => void;
+}
+
+const ImputationSettings = ({ columns, groupColumns, strategies, onStrategiesChange }: ImputationSettingsProps) => {
+  const setStrategy = (column: string, strategy: ImputationStrategy) => {
+    onStrategiesChange({ ...strategies, [column]: strategy });
+  };
+
+  const handleMethodChange = (column: string, method: ImputationMethod) => {
+    const current = strategies[column];
+    const defaultGroupBy = groupColumns.filter(c => c !== column).slice(0, 1);
+    setStrategy(column, {
+      ...current,
+      method,
+      groupBy: method === 'groupMedian' ? current?.groupBy ?? defaultGroupBy : current?.groupBy,
+      k: method === 'knn' ? current?.k ?? DEFAULT_KNN_NEIGHBOURS : current?.k
+    });
+  };
+
+  // Group columns are used in the order they were picked, so the first one matters most
+  const toggleGroupColumn = (column: string, groupColumn: string) => {
+    const strategy = strategies[column];
+    const groupBy = strategy.groupBy ?? [];
+    setStrategy(column, {
+      ...strategy,
+      groupBy: groupBy.includes(groupColumn)
+        ? groupBy.filter(c => c !== groupColumn)
+        : [...groupBy, groupColumn]
+    });
+  };
+
+  if (columns.length === 0) {
+    return <p className="text-sm text-muted-foreground">No selected feature has missing values.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {columns.map(({ column, type, missing }) => {
+        const isNumerical = type === 'numerical';
+        const strategy = strategies[column];
+        const method = resolveImputationMethod(strategy, isNumerical);
+        const methods = (Object.keys(IMPUTATION_METHODS) as ImputationMethod[])
+          .filter(m => isNumerical || !IMPUTATION_METHODS[m].numericalOnly);
+
+        return (
+          <div key={column} className="bg-muted p-2 rounded space-y-2">
+            <div className="grid grid-cols-2 gap-2 items-center">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate" title={column}>{column}</p>
+                <p className="text-xs text-muted-foreground">{missing} missing · {type}</p>
+              </div>
+              <Select value={method} onValueChange={(value) => handleMethodChange(column, value as ImputationMethod)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {methods.map(m => (
+                    <SelectItem key={m} value={m}>{IMPUTATION_METHODS[m].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {method === 'constant' && (
+              <Input
+                type={isNumerical ? 'number' : 'text'}
+                value={strategy?.constant ?? ''}
+                placeholder={isNumerical ? '0' : 'Unknown'}
+                onChange={(e) => setStrategy(column, { ...strategy, method, constant: e.target.value })}
+                className="h-8 text-xs"
+              />
+            )}
+
+            {method === 'groupMedian' && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">
+                  Group by (first picked matters most; smaller groups fall back to fewer columns):
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {groupColumns.filter(c => c !== column).map(groupColumn => {
+                    const position = strategy?.groupBy?.indexOf(groupColumn) ?? -1;
+                    return (
+                      <Badge
+                        key={groupColumn}
+                        variant={position >= 0 ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => toggleGroupColumn(column, groupColumn)}
+                      >
+                        {position >= 0 ? `${position + 1}. ` : ''}{groupColumn}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {method === 'knn' && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">Neighbours (k)</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={strategy?.k ?? DEFAULT_KNN_NEIGHBOURS}
+                  onChange={(e) => setStrategy(column, { ...strategy, method, k: Number(e.target.value) })}
+                  className="h-8 w-20 text-xs"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ImputationSettings;
@@ -1,17 +1,27 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, 
   ResponsiveContainer, ScatterChart, Scatter, ZAxis 
 } from 'recharts';
-import { findOptimalK, performKMeans } from '@/services/mlService';
+import { Dices } from 'lucide-react';
+import { isComputeCancelled } from '@/services/computeClient';
+import { predictClusters } from '@/services/mlService';
+import { useComputeTask } from '@/hooks/use-compute-task';
 import { ProcessedData } from '@/utils/dataUtils';
+import { loadPinnedSeed, normaliseSeed, randomSeed, savePinnedSeed } from '@/utils/random';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
 
 interface KMeansAnalysisProps {
   processedData: ProcessedData;
   pcaData?: number[][];
+  seed: number; // k-means++ starting centres; the same seed and data always give the same clusters
+  onSeedChange: (seed: number) => void;
   onClustersReady: (
     origClusters: number[],
     pcaClusters: number[],
@@ -19,9 +29,16 @@ interface KMeansAnalysisProps {
   ) => void;
 }
 
+const reportError = (err: unknown) => {
+  // Cancellation is shown by the status bars; anything else is worth logging
+  if (!isComputeCancelled(err)) console.error('K-means error:', err);
+};
+
 const KMeansAnalysis = ({
   processedData,
   pcaData,
+  seed,
+  onSeedChange,
   onClustersReady
 }: KMeansAnalysisProps) => {
   const [activeTab, setActiveTab] = useState<string>('elbow');
@@ -35,79 +52,109 @@ const KMeansAnalysis = ({
   const [originalClusters, setOriginalClusters] = useState<number[]>([]);
   const [pcaClusters, setPcaClusters] = useState<number[]>([]);
   const [scatterData, setScatterData] = useState<any[]>([]);
+  const [seedPinned, setSeedPinned] = useState<boolean>(() => loadPinnedSeed() !== null);
+  
+  const [scoringAttempt, setScoringAttempt] = useState(0);
+  const [clusteringAttempt, setClusteringAttempt] = useState(0);
+  const scoring = useComputeTask();
+  const clustering = useComputeTask();
+  const runScoring = scoring.run;
+  const runClustering = clustering.run;
+  
+  // Passengers the outlier step excluded are left out of fitting and assigned to the nearest cluster afterwards
+  const fitMask = useMemo(() => {
+    const { outliers } = processedData;
+    if (outliers?.treatment !== 'exclude' || outliers.rows.length === 0) return null;
+    const excluded = new Set(outliers.rows.map(outlier => outlier.row));
+    return processedData.processed.map((_, i) => !excluded.has(i));
+  }, [processedData]);
   
   useEffect(() => {
     if (processedData.processed.length === 0) return;
+    let active = true;
+    const fitData = fitMask ? processedData.processed.filter((_, i) => fitMask[i]) : processedData.processed;
     
-    const { scores: inertiaScores, recommendedK: elbowK } = findOptimalK(
-      processedData.processed,
-      10,
-      'elbow'
-    );
-    
-    const elbowChartData = inertiaScores.map((score, idx) => ({
-      k: idx + 2,
-      score
-    }));
-    
-    setElbowData(elbowChartData);
-    
-    const { scores: silhouetteScores, recommendedK: silhouetteK } = findOptimalK(
-      processedData.processed,
-      10,
-      'silhouette'
-    );
-    
-    const silhouetteChartData = silhouetteScores.map((score, idx) => ({
-      k: idx + 2,
-      score
-    }));
-    
-    setSilhouetteData(silhouetteChartData);
-    
-    setRecommendedK({
-      elbow: elbowK,
-      silhouette: silhouetteK
-    });
+    (async () => {
+      const { scores: inertiaScores, recommendedK: elbowK } = await runScoring(
+        'findOptimalK',
+        [fitData, 10, 'elbow', seed],
+        'Elbow method'
+      );
+      if (!active) return;
+      
+      const elbowChartData = inertiaScores.map((score, idx) => ({
+        k: idx + 2,
+        score
+      }));
+      
+      setElbowData(elbowChartData);
+      setRecommendedK(prev => ({ ...prev, elbow: elbowK }));
+      setClusterCount(elbowK);
+      
+      const { scores: silhouetteScores, recommendedK: silhouetteK } = await runScoring(
+        'findOptimalK',
+        [fitData, 10, 'silhouette', seed],
+        'Silhouette method'
+      );
+      if (!active) return;
+      
+      const silhouetteChartData = silhouetteScores.map((score, idx) => ({
+        k: idx + 2,
+        score
+      }));
+      
+      setSilhouetteData(silhouetteChartData);
+      
+      setRecommendedK(prev => ({ ...prev, silhouette: silhouetteK }));
+    })().catch(reportError);
     
-    setClusterCount(elbowK);
-  }, [processedData]);
+    return () => {
+      active = false;
+    };
+  }, [processedData, fitMask, seed, runScoring, scoringAttempt]);
   
   useEffect(() => {
     if (processedData.processed.length === 0) return;
+    let active = true;
     
-    const { labels: origLabels } = performKMeans(
-      processedData.processed,
-      clusterCount
-    );
-    
-    setOriginalClusters(origLabels);
+    const cluster = async (data: number[][], label: string) => {
+      const fitData = fitMask ? data.filter((_, i) => fitMask[i]) : data;
+      const { labels } = await runClustering('performKMeans', [fitData, clusterCount, 100, seed], label);
+      return fitMask ? predictClusters(fitData, labels, data) : labels;
+    };
     
-    if (pcaData && pcaData.length > 0) {
-      const { labels: pcaLabels } = performKMeans(
-        pcaData,
-        clusterCount
-      );
+    (async () => {
+      const origLabels = await cluster(processedData.processed, 'Original features');
+      if (!active) return;
+      
+      setOriginalClusters(origLabels);
       
-      setPcaClusters(pcaLabels);
+      let pcaLabels: number[] = [];
       
-      if (pcaData[0].length >= 2) {
-        const newScatterData = pcaData.map((point, idx) => ({
-          x: point[0],
-          y: point[1],
-          cluster: pcaLabels[idx]
-        }));
+      if (pcaData && pcaData.length > 0) {
+        pcaLabels = await cluster(pcaData, 'PCA space');
+        if (!active) return;
+        
+        setPcaClusters(pcaLabels);
         
-        setScatterData(newScatterData);
+        if (pcaData[0].length >= 2) {
+          const newScatterData = pcaData.map((point, idx) => ({
+            x: point[0],
+            y: point[1],
+            cluster: pcaLabels[idx]
+          }));
+          
+          setScatterData(newScatterData);
+        }
       }
-    }
+      
+      onClustersReady(origLabels, pcaLabels, clusterCount);
+    })().catch(reportError);
     
-    onClustersReady(
-      origLabels,
-      pcaData && pcaData.length > 0 ? pcaClusters : [],
-      clusterCount
-    );
-  }, [processedData, pcaData, clusterCount, onClustersReady]);
+    return () => {
+      active = false;
+    };
+  }, [processedData, fitMask, pcaData, clusterCount, seed, onClustersReady, runClustering, clusteringAttempt]);
   
   const handleTabChange = (value: string) => {
     setActiveTab(value);
@@ -119,6 +166,18 @@ const KMeansAnalysis = ({
     }
   };
   
+  // A pinned seed is also used for the next datasets loaded and survives page reloads
+  const handleSeedChange = (value: number) => {
+    const next = normaliseSeed(value);
+    onSeedChange(next);
+    if (seedPinned) savePinnedSeed(next);
+  };
+  
+  const handlePinChange = (pinned: boolean) => {
+    setSeedPinned(pinned);
+    savePinnedSeed(pinned ? seed : null);
+  };
+  
   const handleApplyK = () => {
     onClustersReady(
       originalClusters,
@@ -149,6 +208,12 @@ const KMeansAnalysis = ({
         </CardDescription>
       </CardHeader>
       <CardContent>
+        <ComputeStatusBar
+          status={scoring.status}
+          onCancel={scoring.cancel}
+          onRetry={() => setScoringAttempt(prev => prev + 1)}
+          className="mb-4"
+        />
         <Tabs defaultValue="elbow" value={activeTab} onValueChange={handleTabChange}>
           <TabsList className="grid grid-cols-2 mb-4">
             <TabsTrigger value="elbow">Elbow Method</TabsTrigger>
@@ -233,6 +298,11 @@ const KMeansAnalysis = ({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
           <div className="flex flex-col space-y-4">
             <h3 className="text-md font-medium">Cluster Settings</h3>
+            <ComputeStatusBar
+              status={clustering.status}
+              onCancel={clustering.cancel}
+              onRetry={() => setClusteringAttempt(prev => prev + 1)}
+            />
             <div className="flex items-center space-x-4">
               <div className="flex-grow">
                 <label htmlFor="cluster-count" className="text-sm font-medium">
@@ -266,6 +336,39 @@ const KMeansAnalysis = ({
               </div>
               <Button onClick={handleApplyK}>Apply</Button>
             </div>
+            <div className="space-y-1">
+              <Label htmlFor="cluster-seed" className="text-sm font-medium">Random Seed</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="cluster-seed"
+                  type="number"
+                  min={0}
+                  value={seed}
+                  onChange={(e) => handleSeedChange(Number(e.target.value))}
+                  className="h-8 w-36"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => handleSeedChange(randomSeed())}
+                  aria-label="Re-roll seed"
+                  title="Re-roll seed"
+                >
+                  <Dices className="h-4 w-4" />
+                </Button>
+                <Checkbox
+                  id="pin-cluster-seed"
+                  checked={seedPinned}
+                  onCheckedChange={(checked) => handlePinChange(checked === true)}
+                />
+                <Label htmlFor="pin-cluster-seed" className="text-sm">Pin</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Picks the starting centres. The same seed always gives the same clusters and recommended K;
+                re-roll to check that they do not depend on the start. Pinned seeds are reused for new datasets.
+              </p>
+            </div>
             <div>
               <p className="text-sm text-muted-foreground">
                 <strong>Recommended K:</strong>
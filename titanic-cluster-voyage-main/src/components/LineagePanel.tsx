@@ -0,0 +1,60 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import { CellChange, lineageToCSV } from '@/utils/lineage';
+import { PIPELINE_STEPS, PipelineStepId } from '@/utils/pipeline';
+
+interface LineagePanelProps {
+  lineage: CellChange[];
+}
+
+const stepLabels = Object.fromEntries(
+  Object.values(PIPELINE_STEPS).map(definition => [definition.id, definition.label])
+) as Record<PipelineStepId, string>;
+
+// How many values each step changed per column, with the full list as a download
+const LineagePanel = ({ lineage }: LineagePanelProps) => {
+  if (lineage.length === 0) {
+    return <p className="text-sm text-muted-foreground">No step changed a value that was already in the data.</p>;
+  }
+
+  const counts: Record<string, Record<string, number>> = {};
+  lineage.forEach(({ step, column }) => {
+    counts[step] = counts[step] || {};
+    counts[step][column] = (counts[step][column] || 0) + 1;
+  });
+
+  const handleDownload = () => {
+    const blob = new Blob([lineageToCSV(lineage, stepLabels)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cell-lineage.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      {Object.entries(counts).map(([step, columns]) => (
+        <div key={step} className="flex flex-wrap items-center gap-2">
+          <span className="text-sm">{stepLabels[step as PipelineStepId]}</span>
+          {Object.entries(columns).map(([column, count]) => (
+            <Badge key={column} variant="secondary">{column}: {count}</Badge>
+          ))}
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Changed cells are highlighted in the cluster tables; hover one to see its history.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          Download lineage
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LineagePanel;
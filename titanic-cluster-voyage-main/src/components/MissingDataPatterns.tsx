@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
+import { isComputeCancelled } from '@/services/computeClient';
+import { useComputeTask } from '@/hooks/use-compute-task';
+import { TitanicPassenger } from '@/utils/dataUtils';
+import { MissingnessAnalysis } from '@/utils/missingness';
+
+interface MissingDataPatternsProps {
+  data: TitanicPassenger[];
+}
+
+const SIGNIFICANCE = 0.05;
+const MAX_PATTERNS = 8;
+
+const formatP = (p: number) => (p < 0.001 ? p.toExponential(1) : p.toFixed(3));
+
+const percent = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+const MissingDataPatterns = ({ data }: MissingDataPatternsProps) => {
+  const { status, run, cancel } = useComputeTask();
+  const [analysis, setAnalysis] = useState<MissingnessAnalysis | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<{ column: string; groupBy: string } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (data.length === 0) return;
+    let active = true;
+    setSelectedGroup(null);
+
+    run('analyseMissingness', [data])
+      .then(result => {
+        if (active) setAnalysis(result);
+      })
+      .catch(err => {
+        if (!isComputeCancelled(err)) console.error('Missingness error:', err);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [data, run, attempt]);
+
+  const groupColumns = useMemo(
+    () => [...new Set(analysis?.byGroup.map(result => result.groupBy) ?? [])],
+    [analysis]
+  );
+  const selected = analysis?.byGroup.find(
+    result => result.column === selectedGroup?.column && result.groupBy === selectedGroup?.groupBy
+  );
+
+  const mcar = analysis?.mcar;
+  const mcarRejected = mcar ? mcar.pValue < SIGNIFICANCE : false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Missing Data Patterns</CardTitle>
+        <CardDescription>
+          Which values are missing together and whether the gaps depend on what is observed, to judge whether
+          filling them with a column's median or most frequent value is reasonable.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ComputeStatusBar status={status} onCancel={cancel} onRetry={() => setAttempt(prev => prev + 1)} />
+
+        {analysis && analysis.columns.length === 0 && (
+          <p className="text-sm text-muted-foreground">No column has missing values.</p>
+        )}
+
+        {analysis && analysis.columns.length > 0 && (
+          <>
+            {/* Little's MCAR test */}
+            {mcar ? (
+              <Alert variant={mcarRejected ? 'destructive' : 'default'}>
+                {mcarRejected ? <AlertCircle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                <AlertTitle>
+                  Little's MCAR test: χ² = {mcar.chiSquare.toFixed(1)}, df = {mcar.df}, p = {formatP(mcar.pValue)}
+                </AlertTitle>
+                <AlertDescription>
+                  {mcarRejected
+                    ? 'The gaps depend on observed values, so they are not missing completely at random. A single ' +
+                      'median or most frequent value per column biases the filled rows; prefer group medians or ' +
+                      'k-nearest neighbours, and consider missing value indicators.'
+                    : 'No evidence that the gaps depend on observed values, so filling each column with its median ' +
+                      'or most frequent value is defensible.'}
+                  <span className="block text-xs mt-1">
+                    Tested on {mcar.columns.join(', ')} over {mcar.rows} rows in {mcar.patterns} missing-value
+                    patterns. Categorical columns such as Cabin are covered by the group tables below.
+                  </span>
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Little's MCAR test needs at least two numerical columns with varying values.
+              </p>
+            )}
+
+            {/* Missingness matrix */}
+            <div>
+              <p className="text-sm font-medium mb-1">Missingness Matrix</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                One line per passenger ({analysis.matrix.length} of {analysis.rows}, in file order); dark cells are
+                missing. Stripes that line up across columns are values missing together.
+              </p>
+              <div className="flex gap-1">
+                {analysis.columns.map((column, j) => (
+                  <div key={column} className="flex-1 min-w-0">
+                    <p className="text-xs truncate text-center" title={column}>{column}</p>
+                    <p className="text-[10px] text-muted-foreground text-center">
+                      {percent(analysis.missingCounts[column], analysis.rows).toFixed(1)}%
+                    </p>
+                    <svg
+                      viewBox={`0 0 1 ${analysis.matrix.length}`}
+                      preserveAspectRatio="none"
+                      className="w-full h-48 bg-muted rounded-sm"
+                    >
+                      {analysis.matrix.map(({ row, missing }, i) => missing[j] && (
+                        <rect key={row} x={0} y={i} width={1} height={1} fill="hsl(var(--foreground))" />
+                      ))}
+                    </svg>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Most common combinations */}
+            <div>
+              <p className="text-sm font-medium mb-1">Missing-Value Patterns</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Missing columns</TableHead>
+                    <TableHead>Rows</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.patterns.slice(0, MAX_PATTERNS).map(pattern => (
+                    <TableRow key={pattern.missing.join(',') || 'complete'}>
+                      <TableCell className="text-sm">
+                        {pattern.missing.length > 0 ? pattern.missing.join(' + ') : 'None (complete rows)'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {pattern.count} ({percent(pattern.count, analysis.rows).toFixed(1)}%)
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {analysis.patterns.length > MAX_PATTERNS && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {analysis.patterns.length - MAX_PATTERNS} rarer patterns are not shown.
+                </p>
+              )}
+            </div>
+
+            {/* Co-missingness heatmap */}
+            {analysis.columns.length > 1 && (
+              <div>
+                <p className="text-sm font-medium mb-1">Co-missingness</p>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Share of rows missing the row's column that also miss the column's; the diagonal is the share
+                  missing overall. If Age is missing regardless of Cabin, its cells match Age's overall share.
+                </p>
+                <div className="overflow-x-auto">
+                  <div
+                    className="grid gap-px text-xs"
+                    style={{ gridTemplateColumns: `7rem repeat(${analysis.columns.length}, minmax(3.5rem, 1fr))` }}
+                  >
+                    <div />
+                    {analysis.columns.map(column => (
+                      <div key={column} className="truncate text-center font-medium" title={column}>{column}</div>
+                    ))}
+                    {analysis.columns.map((rowColumn, i) => (
+                      <div key={rowColumn} className="contents">
+                        <div className="truncate pr-2 text-right self-center" title={rowColumn}>{rowColumn}</div>
+                        {analysis.columns.map((column, j) => {
+                          const share = i === j
+                            ? percent(analysis.coMissing[i][i], analysis.rows)
+                            : percent(analysis.coMissing[i][j], analysis.coMissing[i][i]);
+                          return (
+                            <div
+                              key={column}
+                              className={`h-9 flex items-center justify-center rounded-sm ${share > 50 ? 'text-white' : ''}`}
+                              style={{ backgroundColor: `hsla(0, 75%, 45%, ${(share / 100) * 0.85 + 0.05})` }}
+                              title={`${analysis.coMissing[i][j]} rows miss both ${rowColumn} and ${column}`}
+                            >
+                              {share.toFixed(0)}%
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Missingness by group */}
+            {groupColumns.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-1">Missingness by Group</p>
+                <p className="text-xs text-muted-foreground mb-2">
+                  χ² test p-values of whether each column's gaps are spread evenly across the groups; highlighted
+                  values are below {SIGNIFICANCE}. Click one to see the share missing per group.
+                </p>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Missing</TableHead>
+                        {groupColumns.map(groupBy => <TableHead key={groupBy}>by {groupBy}</TableHead>)}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analysis.columns.map(column => (
+                        <TableRow key={column}>
+                          <TableCell className="text-sm font-medium">{column}</TableCell>
+                          {groupColumns.map(groupBy => {
+                            const result = analysis.byGroup.find(r => r.column === column && r.groupBy === groupBy);
+                            if (!result) return <TableCell key={groupBy} className="text-sm text-muted-foreground">—</TableCell>;
+                            const isSelected = selected === result;
+                            return (
+                              <TableCell key={groupBy} className="text-sm">
+                                <Badge
+                                  variant={isSelected ? 'default' : result.pValue < SIGNIFICANCE ? 'destructive' : 'outline'}
+                                  className="cursor-pointer"
+                                  onClick={() => setSelectedGroup(isSelected ? null : { column, groupBy })}
+                                >
+                                  {formatP(result.pValue)}
+                                </Badge>
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {selected && (
+                  <div className="bg-muted p-3 rounded mt-2 space-y-1">
+                    <p className="text-sm font-medium">
+                      {selected.column} missing by {selected.groupBy} (χ² = {selected.chiSquare.toFixed(1)}, df ={' '}
+                      {selected.df}, p = {formatP(selected.pValue)})
+                    </p>
+                    {selected.groups.map(group => (
+                      <div key={group.value} className="flex items-center gap-2 text-sm">
+                        <span className="w-24 truncate" title={group.value}>{group.value}</span>
+                        <Progress value={percent(group.missing, group.rows)} className="h-2 flex-1" />
+                        <span className="w-32 text-right text-xs text-muted-foreground">
+                          {group.missing} of {group.rows} ({percent(group.missing, group.rows).toFixed(1)}%)
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MissingDataPatterns;
@@ -0,0 +1,59 @@
+import { Badge } from '@/components/ui/badge';
+import { missingIndicatorName } from '@/utils/dataUtils';
+
+interface MissingIndicatorSettingsProps {
+  missingCounts: Record<string, number>; // columns with gaps and how many
+  rowCount: number;
+  selected: string[];
+  enabled: boolean; // whether the indicator step is turned on
+  onSelectedChange: (selected: string[]) => void;
+}
+
+const MissingIndicatorSettings = ({
+  missingCounts,
+  rowCount,
+  selected,
+  enabled,
+  onSelectedChange
+}: MissingIndicatorSettingsProps) => {
+  const columns = Object.keys(missingCounts);
+
+  const toggle = (column: string) => {
+    onSelectedChange(selected.includes(column)
+      ? selected.filter(c => c !== column)
+      : [...selected, column]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {enabled
+          ? 'Each picked column adds a 0/1 feature that is 1 where the value was missing.'
+          : 'Turn on "Missing value indicators" under Preprocessing Steps to add these features.'}
+      </p>
+      {columns.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No column has missing values.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {columns.map(column => {
+            const isSelected = selected.includes(column);
+            const share = rowCount > 0 ? (missingCounts[column] / rowCount) * 100 : 0;
+            return (
+              <Badge
+                key={column}
+                variant={isSelected ? 'default' : 'outline'}
+                className={`cursor-pointer ${enabled ? '' : 'opacity-60'}`}
+                onClick={() => toggle(column)}
+                title={`${missingCounts[column]} missing (${share.toFixed(1)}%)`}
+              >
+                {isSelected ? missingIndicatorName(column) : column}
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MissingIndicatorSettings;
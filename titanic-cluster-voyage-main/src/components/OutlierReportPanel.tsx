@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TitanicPassenger } from '@/utils/dataUtils';
+import { OUTLIER_METHODS, OUTLIER_TREATMENTS, OutlierReport } from '@/utils/outliers';
+
+interface OutlierReportPanelProps {
+  report: OutlierReport;
+  passengers: TitanicPassenger[]; // the rows the report's indices refer to
+}
+
+const MAX_LISTED = 50;
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const OutlierReportPanel = ({ report, passengers }: OutlierReportPanelProps) => {
+  if (report.rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No outliers were found in {report.columns.join(', ')}.</p>;
+  }
+
+  const counts: Record<string, number> = {};
+  report.rows.forEach(outlier => outlier.columns.forEach(column => {
+    counts[column] = (counts[column] || 0) + 1;
+  }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm">
+          {report.rows.length} passenger{report.rows.length === 1 ? '' : 's'} (
+          {((report.rows.length / (passengers.length || 1)) * 100).toFixed(1)}%)
+        </span>
+        <Badge variant="outline">{OUTLIER_METHODS[report.method].label}</Badge>
+        <Badge variant="outline">{OUTLIER_TREATMENTS[report.treatment].label}</Badge>
+        {report.method !== 'mahalanobis' && Object.entries(counts).map(([column, count]) => (
+          <Badge key={column} variant="secondary">{column}: {count}</Badge>
+        ))}
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Passenger</TableHead>
+              <TableHead>Values</TableHead>
+              {report.method === 'mahalanobis' && <TableHead>Distance</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.rows.slice(0, MAX_LISTED).map(outlier => {
+              const passenger = passengers[outlier.row] ?? {};
+              return (
+                <TableRow key={outlier.row}>
+                  <TableCell className="text-xs">{outlier.row + 1}</TableCell>
+                  <TableCell className="text-xs max-w-[12rem] truncate" title={passenger.Name}>
+                    {passenger.Name ?? passenger.PassengerId ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {outlier.columns.map(column => (
+                      <span key={column} className="mr-2 whitespace-nowrap">
+                        {column} {formatNumber(outlier.values[column])}
+                        {outlier.clipped?.[column] !== undefined && ` → ${formatNumber(outlier.clipped[column])}`}
+                      </span>
+                    ))}
+                  </TableCell>
+                  {report.method === 'mahalanobis' && (
+                    <TableCell className="text-xs">{formatNumber(outlier.distance ?? 0)}</TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      {report.rows.length > MAX_LISTED && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {MAX_LISTED} of {report.rows.length} passengers.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OutlierReportPanel;
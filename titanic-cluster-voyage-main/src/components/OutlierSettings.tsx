@@ -0,0 +1,116 @@
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  OUTLIER_METHODS,
+  OUTLIER_TREATMENTS,
+  OutlierConfig,
+  OutlierMethod,
+  OutlierTreatment
+} from '@/utils/outliers';
+
+interface OutlierSettingsProps {
+  numericalFeatures: string[];
+  outliers: OutlierConfig;
+  enabled: boolean; // whether the outlier step is turned on
+  onOutliersChange: (outliers: OutlierConfig) => void;
+}
+
+// The setting each method reads, with the label and input limits shown for it
+const THRESHOLDS: Record<OutlierMethod, { field: keyof OutlierConfig; label: string; min: number; step: number }> = {
+  iqr: { field: 'iqrMultiplier', label: 'IQR multiplier', min: 0.5, step: 0.5 },
+  zscore: { field: 'zThreshold', label: 'Standard deviations', min: 1, step: 0.5 },
+  mahalanobis: { field: 'mahalanobisAlpha', label: 'Significance level', min: 0.0001, step: 0.001 }
+};
+
+const OutlierSettings = ({ numericalFeatures, outliers, enabled, onOutliersChange }: OutlierSettingsProps) => {
+  const threshold = THRESHOLDS[outliers.method];
+
+  const toggleColumn = (column: string) => {
+    onOutliersChange({
+      ...outliers,
+      columns: outliers.columns.includes(column)
+        ? outliers.columns.filter(c => c !== column)
+        : [...outliers.columns, column]
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {!enabled && (
+        <p className="text-xs text-muted-foreground">
+          Turn on "Outlier treatment" under Preprocessing Steps to apply these settings.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 items-center">
+        <Label className="text-sm">Detection</Label>
+        <Select
+          value={outliers.method}
+          onValueChange={(value) => onOutliersChange({ ...outliers, method: value as OutlierMethod })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(OUTLIER_METHODS) as OutlierMethod[]).map(method => (
+              <SelectItem key={method} value={method}>{OUTLIER_METHODS[method].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Label htmlFor="outlier-threshold" className="text-sm">{threshold.label}</Label>
+        <Input
+          id="outlier-threshold"
+          type="number"
+          min={threshold.min}
+          step={threshold.step}
+          value={outliers[threshold.field] as number}
+          onChange={(e) => onOutliersChange({ ...outliers, [threshold.field]: Number(e.target.value) })}
+          className="h-8 text-xs"
+        />
+
+        <Label className="text-sm">Treatment</Label>
+        <Select
+          value={outliers.treatment}
+          onValueChange={(value) => onOutliersChange({ ...outliers, treatment: value as OutlierTreatment })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(OUTLIER_TREATMENTS) as OutlierTreatment[]).map(treatment => (
+              <SelectItem key={treatment} value={treatment}>{OUTLIER_TREATMENTS[treatment].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {OUTLIER_METHODS[outliers.method]?.description}. {OUTLIER_TREATMENTS[outliers.treatment]?.description}.
+      </p>
+
+      <div>
+        <p className="text-sm mb-1">Columns to check</p>
+        {numericalFeatures.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No numerical feature is selected.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {numericalFeatures.map(column => (
+              <Badge
+                key={column}
+                variant={outliers.columns.includes(column) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleColumn(column)}
+              >
+                {column}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutlierSettings;
@@ -1,5 +1,5 @@
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from "@/components/ui/slider";
@@ -7,8 +7,10 @@ import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, 
   ResponsiveContainer, ScatterChart, Scatter, ZAxis 
 } from 'recharts';
-import { performPCA } from '@/services/mlService';
+import { isComputeCancelled } from '@/services/computeClient';
+import { useComputeTask } from '@/hooks/use-compute-task';
 import { ProcessedData } from '@/utils/dataUtils';
+import ComputeStatusBar from '@/components/ComputeStatusBar';
 
 interface PCAAnalysisProps {
   processedData: ProcessedData;
@@ -22,7 +24,29 @@ const PCAAnalysis = ({ processedData, onPcaDataReady }: PCAAnalysisProps) => {
   const [projectedData, setProjectedData] = useState<{ x: number; y: number; id: number }[]>([]);
   const [selectedFeature, setSelectedFeature] = useState<string>('None');
   const [pcaData, setPcaData] = useState<number[][]>([]);
+  const [solver, setSolver] = useState<{ sweeps: number; converged: boolean; residual: number } | null>(null);
+  const [attempt, setAttempt] = useState(0);
   const hasRunPCA = useRef(false);
+  const { status, run, cancel } = useComputeTask();
+
+  const applyProjection = useCallback((newPcaData: number[][], components: number) => {
+    setPcaData(newPcaData);
+    onPcaDataReady(newPcaData, components);
+    
+    // Create scatter plot data for the first two components
+    const scatterData = newPcaData.map((point, idx) => ({
+      x: point[0],
+      y: point.length > 1 ? point[1] : 0,
+      id: idx
+    }));
+    
+    setProjectedData(scatterData);
+  }, [onPcaDataReady]);
+
+  const reportError = (err: unknown) => {
+    // Cancellation is shown by the status bar; anything else is worth logging
+    if (!isComputeCancelled(err)) console.error('PCA error:', err);
+  };
 
   // Only initialize PCA once when data is available
   useEffect(() => {
@@ -37,64 +61,53 @@ const PCAAnalysis = ({ processedData, onPcaDataReady }: PCAAnalysisProps) => {
       
       setMaxComponents(maxPossibleComponents);
       
-      // Run initial PCA to get explained variance for all components
-      const { projectedData: fullPcaData, explainedVariance: varianceRatios } = performPCA(
-        processedData.processed
-      );
-      
-      // Calculate cumulative explained variance
-      const varianceData = varianceRatios.map((variance, idx) => {
-        const previousCumulative = idx > 0 ? explainedVariance[idx - 1]?.cumulative || 0 : 0;
-        return {
-          component: idx + 1,
-          variance,
-          cumulative: previousCumulative + variance
-        };
-      });
-      
-      setExplainedVariance(varianceData);
-      
-      // Run PCA with selected number of components
-      const { projectedData: initialPcaData } = performPCA(
-        processedData.processed,
-        numComponents
-      );
-      
-      setPcaData(initialPcaData);
-      onPcaDataReady(initialPcaData, numComponents);
-      
-      // Create scatter plot data for the first two components
-      const scatterData = initialPcaData.map((point, idx) => ({
-        x: point[0],
-        y: point.length > 1 ? point[1] : 0,
-        id: idx
-      }));
-      
-      setProjectedData(scatterData);
+      (async () => {
+        // Run initial PCA to get explained variance for all components
+        const { explainedVariance: varianceRatios, solver: solverReport } = await run(
+          'performPCA',
+          [processedData.processed],
+          'Explained variance'
+        );
+        
+        // Calculate cumulative explained variance
+        let cumulative = 0;
+        const varianceData = varianceRatios.map((variance, idx) => {
+          cumulative += variance;
+          return {
+            component: idx + 1,
+            variance,
+            cumulative
+          };
+        });
+        
+        setExplainedVariance(varianceData);
+        setSolver(solverReport);
+        
+        // Run PCA with selected number of components
+        const { projectedData: initialPcaData } = await run(
+          'performPCA',
+          [processedData.processed, numComponents],
+          'Projection'
+        );
+        
+        applyProjection(initialPcaData, numComponents);
+      })().catch(reportError);
     }
-  }, [processedData, numComponents, onPcaDataReady]);
+  }, [processedData, numComponents, applyProjection, run, attempt]);
+
+  const handleRetry = () => {
+    hasRunPCA.current = false;
+    setAttempt(prev => prev + 1);
+  };
 
   const handleComponentsChange = (value: number[]) => {
     const newNumComponents = value[0];
     setNumComponents(newNumComponents);
     
-    // Run PCA with new number of components
-    const { projectedData: newPcaData } = performPCA(
-      processedData.processed,
-      newNumComponents
-    );
-    
-    setPcaData(newPcaData);
-    onPcaDataReady(newPcaData, newNumComponents);
-    
-    // Update scatter plot data for the first two components
-    const scatterData = newPcaData.map((point, idx) => ({
-      x: point[0],
-      y: point.length > 1 ? point[1] : 0,
-      id: idx
-    }));
-    
-    setProjectedData(scatterData);
+    // Run PCA with new number of components; a newer slider value cancels this one
+    run('performPCA', [processedData.processed, newNumComponents], 'Projection')
+      .then(({ projectedData: newPcaData }) => applyProjection(newPcaData, newNumComponents))
+      .catch(reportError);
   };
 
   const getScatterDataWithColor = () => {
@@ -149,6 +162,7 @@ const PCAAnalysis = ({ processedData, onPcaDataReady }: PCAAnalysisProps) => {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        <ComputeStatusBar status={status} onCancel={cancel} onRetry={handleRetry} className="mb-4" />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <h3 className="text-md font-medium mb-2">Explained Variance</h3>
@@ -189,6 +203,12 @@ const PCAAnalysis = ({ processedData, onPcaDataReady }: PCAAnalysisProps) => {
                 onValueChange={handleComponentsChange}
               />
             </div>
+            {solver && (
+              <p className={`text-xs mt-2 ${solver.converged ? 'text-muted-foreground' : 'text-destructive'}`}>
+                Eigenvectors {solver.converged ? 'converged' : 'did not converge'} after {solver.sweeps} Jacobi
+                sweep{solver.sweeps === 1 ? '' : 's'}; largest residual ‖Av − λv‖ = {solver.residual.toExponential(1)}.
+              </p>
+            )}
           </div>
 
           <div>
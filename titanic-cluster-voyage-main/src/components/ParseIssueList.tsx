@@ -0,0 +1,58 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle } from 'lucide-react';
+import { CSVIssue } from '@/utils/csvParser';
+
+interface ParseIssueListProps {
+  issues: CSVIssue[];
+}
+
+const ISSUE_LABELS: Record<CSVIssue['kind'], string> = {
+  'ragged-row': 'Ragged row',
+  'unterminated-quote': 'Unterminated quote',
+  'stray-quote': 'Stray quote',
+  'type-coercion': 'Type coercion'
+};
+
+const ParseIssueList = ({ issues }: ParseIssueListProps) => {
+  if (issues.length === 0) return null;
+
+  const skipped = issues.filter(issue => issue.action === 'skipped').length;
+  const repaired = issues.length - skipped;
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Some rows needed attention</AlertTitle>
+      <AlertDescription>
+        <p className="text-sm mb-2">
+          {skipped} row{skipped === 1 ? '' : 's'} skipped, {repaired} problem{repaired === 1 ? '' : 's'} repaired.
+        </p>
+        <ScrollArea className="h-40 pr-3">
+          <ul className="space-y-1">
+            {issues.map((issue, index) => (
+              <li key={index} className="text-xs flex items-start gap-2">
+                <Badge
+                  variant={issue.action === 'skipped' ? 'destructive' : 'secondary'}
+                  className="shrink-0"
+                >
+                  {issue.action}
+                </Badge>
+                <span>
+                  <span className="font-medium">
+                    {issue.file && <>{issue.file}, </>}Line {issue.line}
+                  </span>
+                  {issue.column && <> ({issue.column})</>}
+                  {' · '}{ISSUE_LABELS[issue.kind]}: {issue.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ParseIssueList;
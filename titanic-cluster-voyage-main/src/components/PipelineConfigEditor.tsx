@@ -0,0 +1,137 @@
+import { useRef } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertCircle, ArrowDown, ArrowUp, Download, RotateCcw, Upload } from 'lucide-react';
+import {
+  canMoveStep,
+  DEFAULT_PIPELINE_CONFIG,
+  moveStep,
+  parsePipelineConfig,
+  PIPELINE_STEPS,
+  PipelineConfig,
+  serialisePipelineConfig,
+  setStepEnabled,
+  validatePipelineConfig
+} from '@/utils/pipeline';
+
+interface PipelineConfigEditorProps {
+  config: PipelineConfig;
+  onConfigChange: (config: PipelineConfig) => void;
+}
+
+const STAGE_LABELS = {
+  rows: 'Rows',
+  encode: 'Encoding',
+  matrix: 'Matrix'
+};
+
+const PipelineConfigEditor = ({ config, onConfigChange }: PipelineConfigEditorProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const problems = validatePipelineConfig(config);
+
+  const handleExport = () => {
+    const blob = new Blob([serialisePipelineConfig(config)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pipeline-config.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onConfigChange(parsePipelineConfig(await file.text()));
+    } catch (error) {
+      alert(`Could not import configuration: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {config.steps.map((step, index) => {
+        const definition = PIPELINE_STEPS[step.id];
+        if (!definition) return null;
+
+        return (
+          <div key={step.id} className="bg-muted p-3 rounded flex items-start gap-3">
+            <Checkbox
+              id={`step-${step.id}`}
+              checked={step.enabled}
+              disabled={definition.required}
+              onCheckedChange={(checked) => onConfigChange(setStepEnabled(config, step.id, checked === true))}
+              className="mt-1"
+            />
+            <div className="flex-grow min-w-0">
+              <label htmlFor={`step-${step.id}`} className="font-medium flex items-center gap-2">
+                {index + 1}. {definition.label}
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">{STAGE_LABELS[definition.stage]}</Badge>
+                {definition.required && <span className="text-xs text-muted-foreground">required</span>}
+              </label>
+              <p className="text-sm text-muted-foreground">{definition.description}</p>
+            </div>
+            <div className="flex flex-col">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={!canMoveStep(config, index, -1)}
+                onClick={() => onConfigChange(moveStep(config, index, -1))}
+                aria-label={`Move ${definition.label} up`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={!canMoveStep(config, index, 1)}
+                onClick={() => onConfigChange(moveStep(config, index, 1))}
+                aria-label={`Move ${definition.label} down`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      {problems.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{problems.join(' ')}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-1">
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-1" />
+          Export config
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import config
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onConfigChange(DEFAULT_PIPELINE_CONFIG)}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PipelineConfigEditor;
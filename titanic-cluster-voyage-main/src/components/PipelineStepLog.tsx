@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import DataTable from '@/components/DataTable';
+import { PIPELINE_SNAPSHOT_ROWS, PipelineStepEvent, PipelineStepRecord } from '@/utils/pipeline';
+
+interface PipelineStepLogProps {
+  events: PipelineStepEvent[]; // from the run in progress
+  records?: PipelineStepRecord[]; // from the finished run; shown instead of the events
+}
+
+interface LogEntry {
+  label: string;
+  rows: number;
+  columns: number;
+  durationMs?: number; // unset while the step runs
+  fittedRows?: number;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms.toFixed(ms < 10 ? 1 : 0)} ms` : `${(ms / 1000).toFixed(2)} s`);
+
+// Latest state of each step, from its start and end events
+const entriesFromEvents = (events: PipelineStepEvent[]): LogEntry[] => {
+  const entries: LogEntry[] = [];
+  events.forEach(({ index, label, rows, columns, durationMs }) => {
+    entries[index] = { label, rows, columns, durationMs };
+  });
+  return entries.filter(Boolean);
+};
+
+const PipelineStepLog = ({ events, records }: PipelineStepLogProps) => {
+  const [inspected, setInspected] = useState<number | null>(null);
+
+  const entries: LogEntry[] = records ?? entriesFromEvents(events);
+  const total = records ? records.length : events[0]?.total ?? 0;
+  const record = inspected !== null ? records?.[inspected] : undefined;
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8" />
+            <TableHead>Step</TableHead>
+            <TableHead>Rows</TableHead>
+            <TableHead>Columns</TableHead>
+            <TableHead>Time</TableHead>
+            {records && <TableHead />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry, index) => (
+            <TableRow key={`${index}-${entry.label}`}>
+              <TableCell>
+                {entry.durationMs === undefined
+                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                  : <CheckCircle className="h-4 w-4 text-green-500" />}
+              </TableCell>
+              <TableCell className="text-sm">{entry.label}</TableCell>
+              <TableCell className="text-sm">
+                {entry.rows}
+                {entry.fittedRows !== undefined && entry.fittedRows < entry.rows && (
+                  <span className="text-xs text-muted-foreground"> ({entry.fittedRows} fitted)</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">{entry.columns}</TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {entry.durationMs === undefined ? 'Running...' : formatDuration(entry.durationMs)}
+              </TableCell>
+              {records && (
+                <TableCell className="text-right">
+                  <Button
+                    variant={inspected === index ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setInspected(inspected === index ? null : index)}
+                  >
+                    {inspected === index ? 'Hide table' : 'View table'}
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {!records && entries.length < total && (
+        <p className="text-xs text-muted-foreground">{total - entries.length} more step(s) to run.</p>
+      )}
+
+      {record && (
+        <DataTable
+          key={inspected}
+          data={record.table}
+          title={`After ${record.label.toLowerCase()}`}
+          description={
+            record.rows > record.table.length
+              ? `The first ${record.table.length} of ${record.rows} rows`
+              : `All ${record.rows} rows`
+          }
+        />
+      )}
+      {records && record === undefined && (
+        <p className="text-xs text-muted-foreground">
+          View a step's table to see the data as it left that step (up to {PIPELINE_SNAPSHOT_ROWS} rows).
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PipelineStepLog;
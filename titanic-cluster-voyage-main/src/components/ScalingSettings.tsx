@@ -0,0 +1,134 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SCALER_METHODS, ScalerMethod, ScalingConfig } from '@/utils/scaling';
+
+interface ScalingSettingsProps {
+  numericalFeatures: string[];
+  categoricalFeatures: string[];
+  dummyCounts: Record<string, number>; // one-hot columns each categorical feature expands into
+  scaling: ScalingConfig;
+  enabled: boolean; // whether the scaling step is turned on
+  onScalingChange: (scaling: ScalingConfig) => void;
+}
+
+const DEFAULT = 'default';
+
+const ScalerSelect = ({ value, onChange, allowDefault }: {
+  value: string;
+  onChange: (value: string) => void;
+  allowDefault?: boolean;
+}) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="h-8 text-xs">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {allowDefault && <SelectItem value={DEFAULT}>Default</SelectItem>}
+      {(Object.keys(SCALER_METHODS) as ScalerMethod[]).map(method => (
+        <SelectItem key={method} value={method}>{SCALER_METHODS[method].label}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const ScalingSettings = ({
+  numericalFeatures,
+  categoricalFeatures,
+  dummyCounts,
+  scaling,
+  enabled,
+  onScalingChange
+}: ScalingSettingsProps) => {
+  const handleBlockScaler = (block: string, value: string) => {
+    const blocks = { ...scaling.blocks };
+    if (value === DEFAULT) {
+      delete blocks[block];
+    } else {
+      blocks[block] = value as ScalerMethod;
+    }
+    onScalingChange({ ...scaling, blocks });
+  };
+
+  const handleWeight = (block: string, value: string) => {
+    const weights = { ...scaling.weights };
+    if (value === '' || Number(value) === 1) {
+      delete weights[block];
+    } else {
+      weights[block] = Number(value);
+    }
+    onScalingChange({ ...scaling, weights });
+  };
+
+  const rows = [
+    ...numericalFeatures.map(feature => ({ feature, detail: 'numerical' })),
+    ...categoricalFeatures.map(feature => ({
+      feature,
+      detail: `${dummyCounts[feature] ?? 0} one-hot column${dummyCounts[feature] === 1 ? '' : 's'}`
+    }))
+  ];
+
+  return (
+    <div className="space-y-3">
+      {!enabled && (
+        <p className="text-xs text-muted-foreground">
+          Turn on "Feature scaling" under Preprocessing Steps to apply these settings.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 items-center">
+        <Label className="text-sm">Default scaler</Label>
+        <ScalerSelect
+          value={scaling.method}
+          onChange={(value) => onScalingChange({ ...scaling, method: value as ScalerMethod })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">{SCALER_METHODS[scaling.method]?.description}</p>
+
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="equal-block-variance"
+          checked={scaling.equalBlockVariance}
+          onCheckedChange={(checked) => onScalingChange({ ...scaling, equalBlockVariance: checked === true })}
+          className="mt-0.5"
+        />
+        <Label htmlFor="equal-block-variance" className="text-sm leading-snug">
+          Give each categorical feature the same total variance as one numerical feature, however many
+          one-hot columns it has
+        </Label>
+      </div>
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-[1fr_8rem_4.5rem] gap-2 text-xs text-muted-foreground">
+          <span>Feature</span>
+          <span>Scaler</span>
+          <span>Weight</span>
+        </div>
+        {rows.map(({ feature, detail }) => (
+          <div key={feature} className="grid grid-cols-[1fr_8rem_4.5rem] gap-2 items-center">
+            <div className="min-w-0">
+              <p className="text-sm truncate" title={feature}>{feature}</p>
+              <p className="text-xs text-muted-foreground">{detail}</p>
+            </div>
+            <ScalerSelect
+              value={scaling.blocks[feature] ?? DEFAULT}
+              onChange={(value) => handleBlockScaler(feature, value)}
+              allowDefault
+            />
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              value={scaling.weights[feature] ?? 1}
+              onChange={(e) => handleWeight(feature, e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScalingSettings;
@@ -0,0 +1,105 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { ValidationReport } from '@/utils/dataUtils';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  invalidAsMissing: boolean;
+  onInvalidAsMissingChange: (value: boolean) => void;
+}
+
+const ValidationReportPanel = ({
+  report,
+  invalidAsMissing,
+  onInvalidAsMissingChange
+}: ValidationReportPanelProps) => {
+  // Group errors by field so repeated problems collapse into one line
+  const errorsByField: Record<string, { count: number; examples: Set<string>; rows: number[] }> = {};
+  report.errors.forEach(error => {
+    if (!errorsByField[error.field]) {
+      errorsByField[error.field] = { count: 0, examples: new Set(), rows: [] };
+    }
+    const group = errorsByField[error.field];
+    group.count++;
+    if (group.examples.size < 5) group.examples.add(`${error.message} (got ${JSON.stringify(error.value)})`);
+    if (group.rows.length < 10) group.rows.push(error.row + 1);
+  });
+
+  return (
+    <div className="space-y-3">
+      {report.errors.length === 0 ? (
+        <Alert className="bg-green-50 text-green-800 border-green-200">
+          <CheckCircle className="h-4 w-4 text-green-500" />
+          <AlertTitle>All rows are valid</AlertTitle>
+          <AlertDescription>{report.totalRows} rows passed schema validation.</AlertDescription>
+        </Alert>
+      ) : (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Invalid values found</AlertTitle>
+          <AlertDescription>
+            {report.errors.length} invalid value{report.errors.length === 1 ? '' : 's'} in {report.invalidRows} of {report.totalRows} rows.
+            Review them before processing.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {Object.keys(errorsByField).length > 0 && (
+        <div className="max-h-48 overflow-y-auto">
+          <div className="space-y-2 pr-3">
+            {Object.entries(errorsByField).map(([field, group]) => (
+              <div key={field} className="bg-muted p-2 rounded">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{field}</span>
+                  <Badge variant="destructive">{group.count}</Badge>
+                </div>
+                <ul className="list-disc list-inside text-xs text-muted-foreground mt-1">
+                  {[...group.examples].map(example => (
+                    <li key={example}>{example}</li>
+                  ))}
+                </ul>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Rows: {group.rows.join(', ')}{group.count > group.rows.length ? ', …' : ''}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.normalisations.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-1">Normalised Values</p>
+          <div className="flex flex-wrap gap-1">
+            {report.normalisations.slice(0, 20).map(n => (
+              <Badge key={`${n.field}-${n.from}`} variant="secondary">
+                {n.field}: "{n.from}" → {JSON.stringify(n.to)} ×{n.count}
+              </Badge>
+            ))}
+            {report.normalisations.length > 20 && (
+              <Badge variant="outline">+{report.normalisations.length - 20} more</Badge>
+            )}
+          </div>
+        </div>
+      )}
+
+      {report.errors.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="invalid-as-missing"
+            checked={invalidAsMissing}
+            onCheckedChange={(checked) => onInvalidAsMissingChange(checked === true)}
+          />
+          <Label htmlFor="invalid-as-missing" className="text-sm">
+            Treat invalid values as missing and impute them
+          </Label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
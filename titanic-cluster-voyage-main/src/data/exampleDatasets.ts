@@ -0,0 +1,115 @@
+import { CSVParseResult } from '@/utils/csvParser';
+import { runCompute } from '@/services/computeClient';
+import { combineSplits, TitanicPassenger } from '@/utils/dataUtils';
+
+// The Kaggle CSVs are bundled as raw strings at build time, so loading them needs no network.
+// Each file becomes its own chunk and is only downloaded from the app bundle when picked.
+const bundledFiles = import.meta.glob<string>('./titanic/*.csv', { query: '?raw', import: 'default' });
+
+export type BundledFile = 'train' | 'test';
+
+// Where a file is downloaded from when it is not bundled; the training set is the copy the app used to fetch
+const REMOTE_FILES: Partial<Record<BundledFile, string>> = {
+  train: 'https://raw.githubusercontent.com/datasciencedojo/datasets/master/titanic.csv'
+};
+
+export interface ExampleDataset {
+  id: string;
+  name: string;
+  description: string;
+  files: BundledFile[]; // several files are combined and tagged with a Split column
+  filter?: (passenger: TitanicPassenger) => boolean;
+}
+
+export const EXAMPLE_DATASETS: ExampleDataset[] = [
+  {
+    id: 'train',
+    name: 'Kaggle training set',
+    description: '891 passengers with survival labels',
+    files: ['train']
+  },
+  {
+    id: 'test',
+    name: 'Kaggle test set',
+    description: '418 passengers without survival labels',
+    files: ['test']
+  },
+  {
+    id: 'train-test',
+    name: 'Kaggle train + test',
+    description: 'Both sets with a Split column; survival statistics use the training rows only',
+    files: ['train', 'test']
+  },
+  {
+    id: 'first-class',
+    name: 'First class only',
+    description: 'Training set passengers travelling in first class',
+    files: ['train'],
+    filter: passenger => passenger.Pclass === 1
+  },
+  {
+    id: 'women-and-children',
+    name: 'Women and children',
+    description: 'Training set passengers who are female or younger than 16',
+    files: ['train'],
+    filter: passenger =>
+      passenger.Sex === 'female' || (passenger.Age !== null && passenger.Age !== undefined && passenger.Age < 16)
+  }
+];
+
+export const DEFAULT_EXAMPLE_DATASET = 'train';
+
+const filePath = (file: BundledFile) => `./titanic/${file}.csv`;
+
+const isFileBundled = (file: BundledFile) => filePath(file) in bundledFiles;
+
+// Whether every CSV a dataset is built from was present when the app was built, so it loads offline
+export const isDatasetBundled = (dataset: ExampleDataset): boolean => {
+  return dataset.files.every(isFileBundled);
+};
+
+// Whether a dataset can be loaded at all, from the bundle or by downloading its files
+export const isDatasetAvailable = (dataset: ExampleDataset): boolean => {
+  return dataset.files.every(file => isFileBundled(file) || REMOTE_FILES[file] !== undefined);
+};
+
+const readFile = async (file: BundledFile): Promise<string> => {
+  const load = bundledFiles[filePath(file)];
+  if (load) return load();
+
+  const url = REMOTE_FILES[file];
+  if (!url) {
+    throw new Error(`${file}.csv is not bundled with this build`);
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${file}.csv (HTTP ${response.status})`);
+  }
+  return response.text();
+};
+
+// Load and parse a dataset, applying its subset filter
+export const loadExampleDataset = async (id: string): Promise<CSVParseResult> => {
+  const dataset = EXAMPLE_DATASETS.find(d => d.id === id);
+  if (!dataset) {
+    throw new Error(`Unknown example dataset "${id}"`);
+  }
+
+  const parts = await Promise.all(dataset.files.map(async file => {
+    const parsed = await runCompute('parseCSVText', [await readFile(file)]).promise;
+    return {
+      split: file,
+      passengers: parsed.passengers,
+      issues: parsed.issues.map(issue => ({ ...issue, file: `${file}.csv` }))
+    };
+  }));
+
+  const result: CSVParseResult = {
+    passengers: parts.length > 1 ? combineSplits(parts) : parts[0].passengers,
+    issues: parts.flatMap(part => part.issues)
+  };
+
+  return dataset.filter
+    ? { ...result, passengers: result.passengers.filter(dataset.filter) }
+    : result;
+};
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ComputeEvent, ComputeMethod, ComputeTask, isComputeCancelled, runCompute } from '@/services/computeClient';
+import type { ComputeArgs, ComputeResult } from '@/workers/protocol';
+
+export interface ComputeStatus {
+  state: 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+  fraction: number;
+  message: string;
+}
+
+const IDLE: ComputeStatus = { state: 'idle', fraction: 0, message: '' };
+
+// Runs one worker task at a time; starting a new one cancels the previous, as does unmounting
+export function useComputeTask() {
+  const [status, setStatus] = useState<ComputeStatus>(IDLE);
+  const taskRef = useRef<ComputeTask<unknown> | null>(null);
+
+  const run = useCallback(<M extends ComputeMethod>(
+    method: M,
+    args: ComputeArgs<M>,
+    label?: string,
+    onEvent?: (event: ComputeEvent) => void
+  ): Promise<ComputeResult<M>> => {
+    taskRef.current?.cancel();
+
+    const task = runCompute(method, args, progress => {
+      if (taskRef.current !== task) return;
+      setStatus({
+        state: 'running',
+        fraction: progress.fraction,
+        message: label ? `${label}: ${progress.message}` : progress.message
+      });
+    }, event => {
+      if (taskRef.current === task) onEvent?.(event);
+    });
+    taskRef.current = task;
+    setStatus({ state: 'running', fraction: 0, message: label ?? 'Starting...' });
+
+    return task.promise.then(
+      result => {
+        if (taskRef.current === task) {
+          taskRef.current = null;
+          setStatus({ state: 'done', fraction: 1, message: '' });
+        }
+        return result;
+      },
+      error => {
+        if (taskRef.current === task) {
+          taskRef.current = null;
+          setStatus(isComputeCancelled(error)
+            ? { state: 'cancelled', fraction: 0, message: 'Cancelled' }
+            : { state: 'error', fraction: 0, message: error instanceof Error ? error.message : String(error) });
+        }
+        throw error;
+      }
+    );
+  }, []);
+
+  const cancel = useCallback(() => {
+    taskRef.current?.cancel();
+  }, []);
+
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  return { status, run, cancel };
+}
@@ -1,15 +1,49 @@
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
-import { ProcessedData, TitanicPassenger } from '@/utils/dataUtils';
+import { ProcessedData, TitanicPassenger, withColumns } from '@/utils/dataUtils';
+import { lineageByCell } from '@/utils/lineage';
+import { describeFilter, matchesBucket, ProfileFilter } from '@/utils/profiling';
+import { loadPinnedSeed, randomSeed } from '@/utils/random';
 import FileUpload from '@/components/FileUpload';
 import DataTable from '@/components/DataTable';
 import DataPreprocessing from '@/components/DataPreprocessing';
 import PCAAnalysis from '@/components/PCAAnalysis';
 import KMeansAnalysis from '@/components/KMeansAnalysis';
 import ClusterProfiler from '@/components/ClusterProfiler';
+import DatasetLibrary from '@/components/DatasetLibrary';
+import HoldoutTransform from '@/components/HoldoutTransform';
+import CorrelationAnalysis from '@/components/CorrelationAnalysis';
+import ColumnProfiles from '@/components/ColumnProfiles';
+import MissingDataPatterns from '@/components/MissingDataPatterns';
+import { toast } from '@/hooks/use-toast';
+import {
+  DatasetSummary,
+  deleteDataset,
+  duplicateDataset,
+  listDatasets,
+  loadDataset,
+  renameDataset,
+  saveDataset,
+  saveResults
+} from '@/services/datasetLibrary';
+
+// Wait for the analysis to settle before writing it to the library
+const SAVE_RESULTS_DELAY_MS = 500;
+
+// The dataset that was open last is reopened after a reload
+const LAST_DATASET_KEY = 'titanic-last-dataset';
+
+const reportLibraryError = (action: string, error: unknown) => {
+  console.error(`Dataset library: could not ${action}`, error);
+  toast({
+    title: `Could not ${action}`,
+    description: error instanceof Error ? error.message : 'Browser storage is unavailable',
+    variant: 'destructive'
+  });
+};
 
 const Index = () => {
   const [rawData, setRawData] = useState<TitanicPassenger[]>([]);
@@ -19,18 +53,146 @@ const Index = () => {
   const [originalClusters, setOriginalClusters] = useState<number[]>([]);
   const [pcaClusters, setPcaClusters] = useState<number[]>([]);
   const [clusterCount, setClusterCount] = useState<number>(3);
+  const [clusterSeed, setClusterSeed] = useState<number>(() => loadPinnedSeed() ?? randomSeed());
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<string>('data');
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [sessionKey, setSessionKey] = useState<number>(0); // remounts the analysis tabs for a new dataset
+  const [profileFilter, setProfileFilter] = useState<ProfileFilter | null>(null);
+
+  const refreshLibrary = useCallback(() => {
+    listDatasets()
+      .then(setDatasets)
+      .catch(error => reportLibraryError('load the dataset library', error));
+  }, []);
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary]);
 
-  const handleDataLoaded = (data: TitanicPassenger[]) => {
+  // Keep the open dataset's latest results in the library
+  useEffect(() => {
+    if (!activeDatasetId) return;
+    
+    const timer = setTimeout(() => {
+      const results = processedData
+        ? {
+            processedData,
+            pcaData,
+            numPcaComponents,
+            originalClusters,
+            pcaClusters,
+            clusterCount,
+            clusterSeed,
+            savedAt: new Date().toISOString()
+          }
+        : null;
+      
+      saveResults(activeDatasetId, results)
+        .then(updated => setDatasets(list => list.map(d => (d.id === updated.id ? updated : d))))
+        .catch(error => reportLibraryError('save the analysis results', error));
+    }, SAVE_RESULTS_DELAY_MS);
+    
+    return () => clearTimeout(timer);
+  }, [activeDatasetId, processedData, pcaData, numPcaComponents, originalClusters, pcaClusters, clusterCount, clusterSeed]);
+
+  const handleDataLoaded = (data: TitanicPassenger[], name: string) => {
+    // Detach from the previous dataset first so its saved results are not cleared
+    setActiveDatasetId(null);
     setRawData(data);
     setProcessedData(null);
     setPcaData([]);
     setOriginalClusters([]);
     setPcaClusters([]);
+    setClusterSeed(loadPinnedSeed() ?? randomSeed());
     setActiveTab('data');
+    setSessionKey(prev => prev + 1);
+    
+    saveDataset(name, data)
+      .then(summary => {
+        setActiveDatasetId(summary.id);
+        refreshLibrary();
+      })
+      .catch(error => reportLibraryError('save the dataset', error));
   };
 
+  const handleOpenDataset = useCallback(async (id: string) => {
+    try {
+      const { rows, results } = await loadDataset(id);
+      
+      setActiveDatasetId(id);
+      setRawData(rows);
+      setProcessedData(results?.processedData ?? null);
+      setPcaData(results?.pcaData ?? []);
+      setNumPcaComponents(results?.numPcaComponents ?? 2);
+      setOriginalClusters(results?.originalClusters ?? []);
+      setPcaClusters(results?.pcaClusters ?? []);
+      setClusterCount(results?.clusterCount ?? 3);
+      setClusterSeed(results?.clusterSeed ?? loadPinnedSeed() ?? randomSeed());
+      setActiveTab(results?.originalClusters.length ? 'profiles' : results ? 'pca' : 'data');
+      setSessionKey(prev => prev + 1);
+    } catch (error) {
+      reportLibraryError('open the dataset', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const lastId = localStorage.getItem(LAST_DATASET_KEY);
+    if (lastId) handleOpenDataset(lastId);
+  }, [handleOpenDataset]);
+
+  useEffect(() => {
+    if (activeDatasetId) {
+      localStorage.setItem(LAST_DATASET_KEY, activeDatasetId);
+    } else {
+      localStorage.removeItem(LAST_DATASET_KEY);
+    }
+  }, [activeDatasetId]);
+
+  const handleRenameDataset = (id: string, name: string) => {
+    renameDataset(id, name)
+      .then(updated => setDatasets(list => list.map(d => (d.id === id ? updated : d))))
+      .catch(error => reportLibraryError('rename the dataset', error));
+  };
+
+  const handleDuplicateDataset = (id: string) => {
+    duplicateDataset(id)
+      .then(refreshLibrary)
+      .catch(error => reportLibraryError('duplicate the dataset', error));
+  };
+
+  const handleDeleteDataset = (id: string) => {
+    // The data stays on screen, it just is no longer saved
+    if (id === activeDatasetId) setActiveDatasetId(null);
+    
+    deleteDataset(id)
+      .then(refreshLibrary)
+      .catch(error => reportLibraryError('delete the dataset', error));
+  };
+
+  // A filter from the column profiles belongs to the rows it was picked on
+  useEffect(() => {
+    setProfileFilter(null);
+  }, [rawData]);
+  
+  const filteredRows = useMemo(() => {
+    if (!profileFilter) return rawData;
+    return rawData.filter(row => matchesBucket(row, profileFilter.column, profileFilter.bucket));
+  }, [rawData, profileFilter]);
+
+  // First rows of the processed data with their derived columns, for the cluster tables
+  const previewRows = useMemo(() => {
+    if (!processedData) return [];
+    return withColumns(processedData.original.slice(0, 100), processedData.derivedColumns);
+  }, [processedData]);
+  
+  // Values the pipeline changed, highlighted in the cluster tables
+  const cellLineage = useMemo(
+    () => (processedData?.lineage ? lineageByCell(processedData.lineage) : undefined),
+    [processedData]
+  );
+
   const handleProcessingComplete = (data: ProcessedData) => {
     setProcessedData(data);
     setActiveTab('pca');
@@ -63,8 +225,16 @@ const Index = () => {
       <div className="grid gap-6">
         {/* Data Upload */}
         <div className="grid gap-6 grid-cols-1 lg:grid-cols-3">
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <FileUpload onDataLoaded={handleDataLoaded} isLoading={isLoading} />
+            <DatasetLibrary
+              datasets={datasets}
+              activeId={activeDatasetId}
+              onOpen={handleOpenDataset}
+              onRename={handleRenameDataset}
+              onDuplicate={handleDuplicateDataset}
+              onDelete={handleDeleteDataset}
+            />
           </div>
           
           <div className="lg:col-span-2">
@@ -129,7 +299,7 @@ const Index = () => {
         </div>
         
         {rawData.length > 0 && (
-          <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <Tabs key={sessionKey} value={activeTab} onValueChange={setActiveTab}>
             <TabsList className="grid grid-cols-4 mb-4">
               <TabsTrigger value="data">Data Exploration</TabsTrigger>
               <TabsTrigger value="pca" disabled={!processedData}>PCA Analysis</TabsTrigger>
@@ -138,11 +308,21 @@ const Index = () => {
             </TabsList>
             
             <TabsContent value="data" className="space-y-6">
-              <DataTable data={rawData} />
+              <DataTable
+                key={profileFilter ? describeFilter(profileFilter) : 'all'}
+                data={filteredRows}
+                description={profileFilter
+                  ? `${filteredRows.length} of ${rawData.length} passengers (${describeFilter(profileFilter)})`
+                  : undefined}
+              />
+              <ColumnProfiles data={rawData} filter={profileFilter} onFilterChange={setProfileFilter} />
+              <MissingDataPatterns data={rawData} />
               <DataPreprocessing 
                 data={rawData}
                 onProcessingComplete={handleProcessingComplete}
+                initialConfig={processedData?.config}
               />
+              {processedData && <CorrelationAnalysis processedData={processedData} />}
             </TabsContent>
             
             <TabsContent value="pca" className="space-y-6">
@@ -159,6 +339,8 @@ const Index = () => {
                 <KMeansAnalysis
                   processedData={processedData}
                   pcaData={pcaData}
+                  seed={clusterSeed}
+                  onSeedChange={setClusterSeed}
                   onClustersReady={handleClustersReady}
                 />
               )}
@@ -184,8 +366,9 @@ const Index = () => {
                       </CardHeader>
                       <CardContent>
                         <DataTable 
-                          data={processedData.original.slice(0, 100)} 
+                          data={previewRows} 
                           clusters={originalClusters.slice(0, 100)}
+                          lineage={cellLineage}
                         />
                       </CardContent>
                     </Card>
@@ -199,12 +382,15 @@ const Index = () => {
                       </CardHeader>
                       <CardContent>
                         <DataTable 
-                          data={processedData.original.slice(0, 100)} 
+                          data={previewRows} 
                           clusters={pcaClusters.slice(0, 100)}
+                          lineage={cellLineage}
                         />
                       </CardContent>
                     </Card>
                   </div>
+                  
+                  <HoldoutTransform processedData={processedData} originalClusters={originalClusters} />
                 </>
               )}
             </TabsContent>
@@ -0,0 +1,79 @@
+import type {
+  ComputeArgs,
+  ComputeEvent,
+  ComputeMethod,
+  ComputeProgress,
+  ComputeRequest,
+  ComputeResponse,
+  ComputeResult
+} from '@/workers/protocol';
+
+export type { ComputeEvent, ComputeMethod, ComputeProgress } from '@/workers/protocol';
+
+export interface ComputeTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+let nextId = 1;
+
+// Rejection reason for tasks stopped with cancel()
+export const isComputeCancelled = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// Run a method on its own worker so it can be cancelled by terminating that worker
+export const runCompute = <M extends ComputeMethod>(
+  method: M,
+  args: ComputeArgs<M>,
+  onProgress?: (progress: ComputeProgress) => void,
+  onEvent?: (event: ComputeEvent) => void
+): ComputeTask<ComputeResult<M>> => {
+  const id = nextId++;
+  const worker = new Worker(new URL('../workers/compute.worker.ts', import.meta.url), { type: 'module' });
+  let settle: { reject: (reason: unknown) => void } | null = null;
+
+  const promise = new Promise<ComputeResult<M>>((resolve, reject) => {
+    settle = { reject };
+
+    worker.onmessage = (event: MessageEvent<ComputeResponse>) => {
+      const response = event.data;
+      if (response.id !== id) return;
+
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      if (response.type === 'event') {
+        onEvent?.(response.event);
+        return;
+      }
+
+      worker.terminate();
+      settle = null;
+      if (response.type === 'result') {
+        resolve(response.result as ComputeResult<M>);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      worker.terminate();
+      settle = null;
+      reject(new Error(event.message || `Compute worker failed while running ${method}`));
+    };
+
+    const request: ComputeRequest<M> = { id, method, args };
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    if (!settle) return;
+    worker.terminate();
+    settle.reject(new DOMException(`${method} was cancelled`, 'AbortError'));
+    settle = null;
+  };
+
+  return { promise, cancel };
+};
@@ -0,0 +1,213 @@
+import { FeatureType, inferColumnTypes, ProcessedData, TitanicPassenger } from '@/utils/dataUtils';
+
+// Datasets persist in IndexedDB so uploads and results survive reloads.
+// Metadata and rows live in separate stores so listing the library never loads the rows.
+
+const DB_NAME = 'titanic-dataset-library';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'datasets';
+const CONTENT_STORE = 'contents';
+
+export interface SchemaColumn {
+  column: string;
+  type: FeatureType;
+  confidence: number;
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  rowCount: number;
+  schema: SchemaColumn[];
+  uploadedAt: string;
+  updatedAt: string;
+  hasResults: boolean;
+}
+
+// Analysis state from Index, saved so reopening a dataset picks up where it left off
+export interface SavedResults {
+  processedData: ProcessedData;
+  pcaData: number[][];
+  numPcaComponents: number;
+  originalClusters: number[];
+  pcaClusters: number[];
+  clusterCount: number;
+  clusterSeed?: number; // absent from results saved before clustering was seeded
+  savedAt: string;
+}
+
+interface DatasetContent {
+  id: string;
+  rows: TitanicPassenger[];
+  results: SavedResults | null;
+}
+
+export interface StoredDataset {
+  summary: DatasetSummary;
+  rows: TitanicPassenger[];
+  results: SavedResults | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CONTENT_STORE)) {
+          db.createObjectStore(CONTENT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call retry if opening failed, e.g. after the user re-enables storage
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run work against both stores in one transaction and wait for it to commit
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (summaries: IDBObjectStore, contents: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, CONTENT_STORE], mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+  const result = await work(transaction.objectStore(SUMMARY_STORE), transaction.objectStore(CONTENT_STORE));
+  await committed;
+  return result;
+};
+
+const getSummary = async (summaries: IDBObjectStore, id: string): Promise<DatasetSummary> => {
+  const summary = await requestResult<DatasetSummary | undefined>(summaries.get(id));
+  if (!summary) {
+    throw new Error(`Dataset "${id}" is not in the library`);
+  }
+  return summary;
+};
+
+const createId = (): string => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+// Detected schema recorded alongside each dataset
+export const detectSchema = (rows: TitanicPassenger[]): SchemaColumn[] => {
+  return Object.entries(inferColumnTypes(rows)).map(([column, inference]) => ({
+    column,
+    type: inference.type,
+    confidence: inference.confidence
+  }));
+};
+
+// All datasets, most recently uploaded first
+export const listDatasets = async (): Promise<DatasetSummary[]> => {
+  const summaries = await withStores('readonly', store => requestResult<DatasetSummary[]>(store.getAll()));
+  return summaries.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+};
+
+export const saveDataset = async (name: string, rows: TitanicPassenger[]): Promise<DatasetSummary> => {
+  const now = new Date().toISOString();
+  const summary: DatasetSummary = {
+    id: createId(),
+    name,
+    rowCount: rows.length,
+    schema: detectSchema(rows),
+    uploadedAt: now,
+    updatedAt: now,
+    hasResults: false
+  };
+  const content: DatasetContent = { id: summary.id, rows, results: null };
+
+  await withStores('readwrite', async (summaries, contents) => {
+    summaries.put(summary);
+    contents.put(content);
+  });
+  return summary;
+};
+
+export const loadDataset = async (id: string): Promise<StoredDataset> => {
+  return withStores('readonly', async (summaries, contents) => {
+    const summary = await getSummary(summaries, id);
+    const content = await requestResult<DatasetContent | undefined>(contents.get(id));
+    return { summary, rows: content?.rows ?? [], results: content?.results ?? null };
+  });
+};
+
+export const renameDataset = async (id: string, name: string): Promise<DatasetSummary> => {
+  return withStores('readwrite', async summaries => {
+    const summary = await getSummary(summaries, id);
+    const renamed = { ...summary, name, updatedAt: new Date().toISOString() };
+    summaries.put(renamed);
+    return renamed;
+  });
+};
+
+// Copy rows and saved results under a new id
+export const duplicateDataset = async (id: string): Promise<DatasetSummary> => {
+  return withStores('readwrite', async (summaries, contents) => {
+    const summary = await getSummary(summaries, id);
+    const content = await requestResult<DatasetContent | undefined>(contents.get(id));
+    const now = new Date().toISOString();
+    const copy: DatasetSummary = {
+      ...summary,
+      id: createId(),
+      name: `${summary.name} (copy)`,
+      uploadedAt: now,
+      updatedAt: now
+    };
+
+    summaries.put(copy);
+    contents.put({ id: copy.id, rows: content?.rows ?? [], results: content?.results ?? null });
+    return copy;
+  });
+};
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  await withStores('readwrite', async (summaries, contents) => {
+    summaries.delete(id);
+    contents.delete(id);
+  });
+};
+
+// Store the latest analysis for a dataset; pass null to clear it
+export const saveResults = async (id: string, results: SavedResults | null): Promise<DatasetSummary> => {
+  return withStores('readwrite', async (summaries, contents) => {
+    const summary = await getSummary(summaries, id);
+    const content = await requestResult<DatasetContent | undefined>(contents.get(id));
+    const updated = { ...summary, hasResults: results !== null, updatedAt: new Date().toISOString() };
+
+    summaries.put(updated);
+    contents.put({ id, rows: content?.rows ?? [], results });
+    return updated;
+  });
+};
@@ -1,16 +1,23 @@
-import { ProcessedData } from '../utils/dataUtils';
+import { ProcessedData, ProgressCallback } from '../utils/dataUtils';
+import { symmetricEigen } from '../utils/eigen';
+import { createRandom, Random } from '../utils/random';
+
+// Used when no generator is passed, so the same data always gives the same clusters
+export const DEFAULT_CLUSTER_SEED = 1912;
 
 // PCA implementation
 export const performPCA = (
   data: number[][],
-  numComponents?: number
+  numComponents?: number,
+  onProgress?: ProgressCallback
 ): {
   projectedData: number[][];
   explainedVariance: number[];
   components: number[][];
+  solver: { sweeps: number; converged: boolean; residual: number }; // how well the eigenpairs were found
 } => {
   if (data.length === 0 || data[0].length === 0) {
-    return { projectedData: [], explainedVariance: [], components: [] };
+    return { projectedData: [], explainedVariance: [], components: [], solver: { sweeps: 0, converged: true, residual: 0 } };
   }
 
   // 1. Calculate the mean of each feature
@@ -37,6 +44,7 @@ export const performPCA = (
   const covariance = Array(d).fill(0).map(() => Array(d).fill(0));
   
   for (let i = 0; i < d; i++) {
+    onProgress?.((i / d) * 0.5, 'Computing covariance matrix');
     for (let j = i; j < d; j++) {
       let sum = 0;
       for (let k = 0; k < n; k++) {
@@ -47,28 +55,30 @@ export const performPCA = (
     }
   }
   
-  // 4. Compute eigenvalues and eigenvectors using power iteration
-  const eigenResults = computeEigenvectors(covariance, d);
-  
-  // Sort by eigenvalue in descending order
-  const eigenPairs = eigenResults.eigenvalues
-    .map((val, idx) => ({ val, idx }))
-    .sort((a, b) => b.val - a.val);
+  // 4. Compute eigenvalues and eigenvectors with Jacobi rotations, largest eigenvalue first
+  onProgress?.(0.5, 'Finding eigenvectors');
+  const eigen = symmetricEigen(covariance, {
+    // Most matrices converge within ten sweeps
+    onSweep: (sweep, offDiagonal) => onProgress?.(
+      0.5 + Math.min(sweep / 10, 1) * 0.4,
+      `Jacobi sweep ${sweep} (off-diagonal ${offDiagonal.toExponential(1)})`
+    )
+  });
   
-  // Calculate total variance and explained variance ratio
-  const totalVariance = eigenPairs.reduce((acc, pair) => acc + pair.val, 0);
+  // Rounding can leave eigenvalues of a covariance matrix slightly below zero
+  const variances = eigen.eigenvalues.map(value => Math.max(0, value));
+  const totalVariance = variances.reduce((acc, value) => acc + value, 0);
   
-  const explainedVariance = eigenPairs.map(pair => pair.val / totalVariance);
+  const explainedVariance = variances.map(value => (totalVariance > 0 ? value / totalVariance : 0));
   
   // Determine number of components to keep
   const k = numComponents || d;
   
   // Create matrix of top k eigenvectors
-  const components = eigenPairs
-    .slice(0, k)
-    .map(pair => eigenResults.eigenvectors[pair.idx]);
+  const components = eigen.eigenvectors.slice(0, k);
   
   // Project data onto new dimensions
+  onProgress?.(0.9, 'Projecting data');
   const projectedData = centeredData.map(row => {
     return components.map(component => {
       let dotProduct = 0;
@@ -79,78 +89,23 @@ export const performPCA = (
     });
   });
   
+  onProgress?.(1, 'PCA complete');
+  
   return { 
     projectedData, 
     explainedVariance: explainedVariance.slice(0, k),
-    components
+    components,
+    solver: { sweeps: eigen.sweeps, converged: eigen.converged, residual: eigen.residual }
   };
 };
 
-// Helper function to compute eigenvectors using power iteration
-function computeEigenvectors(
-  matrix: number[][],
-  numComponents: number
-): { eigenvalues: number[]; eigenvectors: number[][] } {
-  const n = matrix.length;
-  const eigenvalues: number[] = [];
-  const eigenvectors: number[][] = [];
-  
-  // Create a copy of the matrix
-  let remainingMatrix = matrix.map(row => [...row]);
-  
-  // Find eigenvectors one by one
-  for (let k = 0; k < numComponents; k++) {
-    // Start with a random vector
-    let vector = Array(n).fill(0).map(() => Math.random());
-    
-    // Normalize the vector
-    let norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
-    vector = vector.map(val => val / norm);
-    
-    // Power iteration (30 iterations should be enough for convergence)
-    for (let iter = 0; iter < 30; iter++) {
-      // Multiply matrix by vector
-      const newVector = Array(n).fill(0);
-      
-      for (let i = 0; i < n; i++) {
-        for (let j = 0; j < n; j++) {
-          newVector[i] += remainingMatrix[i][j] * vector[j];
-        }
-      }
-      
-      // Normalize the new vector
-      norm = Math.sqrt(newVector.reduce((sum, val) => sum + val * val, 0));
-      vector = newVector.map(val => val / norm);
-    }
-    
-    // Calculate the Rayleigh quotient (eigenvalue)
-    let eigenvalue = 0;
-    
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        eigenvalue += vector[i] * remainingMatrix[i][j] * vector[j];
-      }
-    }
-    
-    eigenvalues.push(eigenvalue);
-    eigenvectors.push(vector);
-    
-    // Deflation (remove the component from the matrix)
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        remainingMatrix[i][j] -= eigenvalue * vector[i] * vector[j];
-      }
-    }
-  }
-  
-  return { eigenvalues, eigenvectors };
-}
-
 // K-means clustering implementation
 export const performKMeans = (
   data: number[][],
   k: number,
-  maxIterations: number = 100
+  maxIterations: number = 100,
+  onProgress?: ProgressCallback,
+  random: Random = createRandom(DEFAULT_CLUSTER_SEED)
 ): {
   labels: number[];
   centroids: number[][];
@@ -164,7 +119,7 @@ export const performKMeans = (
   const d = data[0].length;
   
   // Initialize centroids using k-means++ method
-  const centroids = initializeCentroids(data, k);
+  const centroids = initializeCentroids(data, k, random);
   
   // Main K-means loop
   let labels = Array(n).fill(0);
@@ -174,6 +129,8 @@ export const performKMeans = (
   while (changed && iterations < maxIterations) {
     changed = false;
     iterations++;
+    // Most fits converge long before maxIterations, so this is an upper bound
+    onProgress?.(iterations / maxIterations, `K-means iteration ${iterations}`);
     
     // Assign points to nearest centroid
     for (let i = 0; i < n; i++) {
@@ -219,6 +176,8 @@ export const performKMeans = (
     }
   }
   
+  onProgress?.(1, `K-means converged after ${iterations} iterations`);
+  
   // Calculate inertia (sum of squared distances to closest centroid)
   let inertia = 0;
   
@@ -229,14 +188,55 @@ export const performKMeans = (
   return { labels, centroids, inertia };
 };
 
+// Assign new points to the nearest centre of existing clusters, e.g. passengers from a holdout file.
+// Centres are the means of the reference points in each cluster.
+export const predictClusters = (
+  reference: number[][],
+  labels: number[],
+  data: number[][]
+): number[] => {
+  if (reference.length === 0 || data.length === 0) return [];
+  
+  const d = reference[0].length;
+  const k = Math.max(...labels) + 1;
+  const centroids: number[][] = Array(k).fill(0).map(() => Array(d).fill(0));
+  const counts = Array(k).fill(0);
+  
+  reference.forEach((point, i) => {
+    counts[labels[i]]++;
+    for (let j = 0; j < d; j++) {
+      centroids[labels[i]][j] += point[j];
+    }
+  });
+  centroids.forEach((centroid, c) => {
+    for (let j = 0; j < d; j++) {
+      centroid[j] /= counts[c] || 1;
+    }
+  });
+  
+  return data.map(point => {
+    let minDistance = Infinity;
+    let minIndex = 0;
+    centroids.forEach((centroid, c) => {
+      if (counts[c] === 0) return;
+      const distance = euclideanDistance(point, centroid);
+      if (distance < minDistance) {
+        minDistance = distance;
+        minIndex = c;
+      }
+    });
+    return minIndex;
+  });
+};
+
 // Helper function to initialize centroids using k-means++
-function initializeCentroids(data: number[][], k: number): number[][] {
+function initializeCentroids(data: number[][], k: number, random: Random): number[][] {
   const n = data.length;
   const d = data[0].length;
   const centroids: number[][] = [];
   
   // Choose first centroid randomly
-  const firstIndex = Math.floor(Math.random() * n);
+  const firstIndex = random.int(0, n - 1);
   centroids.push([...data[firstIndex]]);
   
   // Choose remaining centroids
@@ -258,7 +258,7 @@ function initializeCentroids(data: number[][], k: number): number[][] {
     
     if (sum === 0) {
       // If all distances are 0, choose randomly
-      const randomIndex = Math.floor(Math.random() * n);
+      const randomIndex = random.int(0, n - 1);
       centroids.push([...data[randomIndex]]);
       continue;
     }
@@ -266,7 +266,7 @@ function initializeCentroids(data: number[][], k: number): number[][] {
     const probabilities = distances.map(distance => distance / sum);
     
     // Choose next centroid based on probability distribution
-    let r = Math.random();
+    const r = random.next();
     let cumulativeProb = 0;
     let selectedIndex = 0;
     
@@ -298,7 +298,8 @@ function euclideanDistance(a: number[], b: number[]): number {
 // Calculate silhouette score
 export const calculateSilhouetteScore = (
   data: number[][],
-  labels: number[]
+  labels: number[],
+  onProgress?: ProgressCallback
 ): number => {
   if (data.length < 2 || new Set(labels).size < 2) {
     return 0;
@@ -309,6 +310,7 @@ export const calculateSilhouetteScore = (
   
   // Calculate silhouette coefficient for each point
   for (let i = 0; i < n; i++) {
+    if (i % 100 === 0) onProgress?.(i / n, 'Computing silhouette scores');
     const clusterI = labels[i];
     
     // Calculate average distance to points in same cluster (a)
@@ -374,24 +376,40 @@ export const calculateSilhouetteScore = (
 export const findOptimalK = (
   data: number[][],
   maxK: number = 10,
-  method: 'elbow' | 'silhouette' = 'elbow'
+  method: 'elbow' | 'silhouette' = 'elbow',
+  onProgress?: ProgressCallback,
+  random: Random = createRandom(DEFAULT_CLUSTER_SEED)
 ): {
   scores: number[];
   recommendedK: number;
 } => {
   const scores: number[] = [];
   
+  const fits = maxK - 1;
+  
   for (let k = 2; k <= maxK; k++) {
-    const { labels, inertia } = performKMeans(data, k);
+    // Each K gets an equal share of the progress bar, split between fitting and scoring
+    const start = (k - 2) / fits;
+    const share = 1 / fits;
+    const fitShare = method === 'elbow' ? share : share * 0.2;
+    
+    // Every K starts from the same seed, so its score describes the fit performKMeans gives with that seed
+    const { labels, inertia } = performKMeans(data, k, 100, (fraction, message) => {
+      onProgress?.(start + fraction * fitShare, `K=${k}: ${message}`);
+    }, createRandom(random.seed));
     
     if (method === 'elbow') {
       scores.push(inertia);
     } else {
-      const silhouette = calculateSilhouetteScore(data, labels);
+      const silhouette = calculateSilhouetteScore(data, labels, (fraction, message) => {
+        onProgress?.(start + fitShare + fraction * (share - fitShare), `K=${k}: ${message}`);
+      });
       scores.push(silhouette);
     }
   }
   
+  onProgress?.(1, 'Scoring complete');
+  
   // Simple heuristic to recommend K
   let recommendedK = 2;
   
@@ -0,0 +1,243 @@
+import type { CSVTable } from './csvParser';
+
+// Canonical TitanicPassenger fields that source columns can be mapped to
+export const CANONICAL_FIELDS = [
+  'PassengerId',
+  'Survived',
+  'Pclass',
+  'Name',
+  'Sex',
+  'Age',
+  'SibSp',
+  'Parch',
+  'Ticket',
+  'Fare',
+  'Cabin',
+  'Embarked'
+] as const;
+
+export type CanonicalField = typeof CANONICAL_FIELDS[number];
+
+// Special targets: keep the column under its own name, or drop it
+export const KEEP_COLUMN = '__keep__';
+export const IGNORE_COLUMN = '__ignore__';
+
+export type MappingTarget = CanonicalField | typeof KEEP_COLUMN | typeof IGNORE_COLUMN;
+
+// Source header → target
+export type ColumnMapping = Record<string, MappingTarget>;
+
+export interface MappingSuggestion {
+  target: MappingTarget;
+  method: 'exact' | 'alias' | 'fuzzy' | 'none';
+  score: number;
+}
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+// Known alternative names, compared after normalisation
+export const FIELD_ALIASES: Record<CanonicalField, string[]> = {
+  PassengerId: ['passenger id', 'id', 'passenger', 'passenger no', 'passenger number'],
+  Survived: ['survival', 'survive', 'alive', 'lived'],
+  Pclass: ['class', 'passenger class', 'ticket class', 'p class'],
+  Name: ['full name', 'passenger name'],
+  Sex: ['gender'],
+  Age: ['age years', 'age in years'],
+  SibSp: ['sib sp', 'siblings spouses', 'siblings spouses aboard', 'sibling spouse', 'siblings'],
+  Parch: ['par ch', 'parents children', 'parents children aboard', 'parent child', 'parents'],
+  Ticket: ['ticket number', 'ticket no', 'ticket id'],
+  Fare: ['ticket fare', 'price', 'passenger fare'],
+  Cabin: ['cabin number', 'cabin no'],
+  Embarked: ['port of embarkation', 'embarkation', 'embarkation port', 'port', 'embark']
+};
+
+// Fuzzy matches below this similarity are not suggested
+const FUZZY_THRESHOLD = 0.75;
+
+const PROFILE_STORAGE_KEY = 'titanic-column-mapping-profiles';
+
+// Lower-case and collapse punctuation, underscores and camelCase into single spaces
+export const normaliseHeader = (header: string): string => {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// Levenshtein distance between two strings
+const editDistance = (a: string, b: string): number => {
+  const previous = Array(b.length + 1).fill(0).map((_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - editDistance(a, b) / maxLength;
+};
+
+// Score a source header against one canonical field
+const matchField = (header: string, field: CanonicalField): MappingSuggestion => {
+  if (header.trim() === field) {
+    return { target: field, method: 'exact', score: 1 };
+  }
+
+  const normalised = normaliseHeader(header);
+  const candidates = [normaliseHeader(field), ...FIELD_ALIASES[field]];
+
+  if (candidates.includes(normalised)) {
+    return { target: field, method: 'alias', score: 0.95 };
+  }
+
+  // Headers such as "Fare (GBP)" or "Age at boarding" contain a known name as whole words
+  const padded = ` ${normalised} `;
+  if (candidates.some(candidate => candidate.length > 2 && padded.includes(` ${candidate} `))) {
+    return { target: field, method: 'fuzzy', score: 0.8 };
+  }
+
+  // Compare without spaces so "sib_sp" and "Sib Sp" match "sibsp"
+  const compact = normalised.replace(/ /g, '');
+  const best = Math.max(...candidates.map(candidate => similarity(compact, candidate.replace(/ /g, ''))));
+
+  return best >= FUZZY_THRESHOLD
+    ? { target: field, method: 'fuzzy', score: best * 0.9 }
+    : { target: KEEP_COLUMN, method: 'none', score: 0 };
+};
+
+// Suggest a target for each header; every canonical field is used at most once
+export const suggestMapping = (headers: string[]): Record<string, MappingSuggestion> => {
+  const candidates: { header: string; suggestion: MappingSuggestion }[] = [];
+
+  headers.forEach(header => {
+    CANONICAL_FIELDS.forEach(field => {
+      const suggestion = matchField(header, field);
+      if (suggestion.method !== 'none') candidates.push({ header, suggestion });
+    });
+  });
+
+  // Assign greedily, strongest matches first
+  candidates.sort((a, b) => b.suggestion.score - a.suggestion.score);
+
+  const suggestions: Record<string, MappingSuggestion> = {};
+  const usedFields = new Set<MappingTarget>();
+
+  candidates.forEach(({ header, suggestion }) => {
+    if (suggestions[header] || usedFields.has(suggestion.target)) return;
+    suggestions[header] = suggestion;
+    usedFields.add(suggestion.target);
+  });
+
+  headers.forEach(header => {
+    if (!suggestions[header]) {
+      suggestions[header] = { target: KEEP_COLUMN, method: 'none', score: 0 };
+    }
+  });
+
+  return suggestions;
+};
+
+export const suggestionsToMapping = (suggestions: Record<string, MappingSuggestion>): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  Object.entries(suggestions).forEach(([header, suggestion]) => {
+    mapping[header] = suggestion.target;
+  });
+  return mapping;
+};
+
+// Canonical fields claimed by more than one source column
+export const findDuplicateTargets = (mapping: ColumnMapping): CanonicalField[] => {
+  const counts: Record<string, number> = {};
+
+  Object.values(mapping).forEach(target => {
+    if (target === KEEP_COLUMN || target === IGNORE_COLUMN) return;
+    counts[target] = (counts[target] || 0) + 1;
+  });
+
+  return Object.keys(counts).filter(field => counts[field] > 1) as CanonicalField[];
+};
+
+// A header's target, read as an own property so headers such as "constructor" or profiles
+// loaded from localStorage never pick up values from the prototype chain
+const targetOf = (mapping: ColumnMapping, header: string): MappingTarget | undefined =>
+  Object.prototype.hasOwnProperty.call(mapping, header) ? mapping[header] : undefined;
+
+// True when at least one header already carries its canonical Kaggle name and the rest are kept as
+// they are; a file whose headers match no field at all still needs the mapping step
+export const isCanonicalMapping = (headers: string[], mapping: ColumnMapping): boolean => {
+  return headers.some(header => targetOf(mapping, header) === header) &&
+    headers.every(header => targetOf(mapping, header) === header || targetOf(mapping, header) === KEEP_COLUMN);
+};
+
+// Rename mapped columns and drop ignored ones before the table is converted to passengers
+export const applyColumnMapping = (table: CSVTable, mapping: ColumnMapping): CSVTable => {
+  const kept = table.headers
+    .map((header, index) => ({ header, index, target: targetOf(mapping, header) ?? KEEP_COLUMN }))
+    .filter(column => column.target !== IGNORE_COLUMN);
+
+  return {
+    ...table,
+    headers: kept.map(column => (column.target === KEEP_COLUMN ? column.header : column.target)),
+    records: table.records.map(record => kept.map(column => record[column.index]))
+  };
+};
+
+// Saved mapping profiles live in localStorage so they survive reloads
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MappingProfile[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMappingProfile = (name: string, mapping: ColumnMapping): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(profile => profile.name !== name);
+  profiles.push({ name, mapping, createdAt: new Date().toISOString() });
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteMappingProfile = (name: string): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(profile => profile.name !== name);
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+// Apply a saved profile to the current headers, falling back to suggestions for unknown ones
+export const applyMappingProfile = (
+  headers: string[],
+  profile: MappingProfile,
+  fallback: ColumnMapping
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  headers.forEach(header => {
+    mapping[header] = targetOf(profile.mapping, header) ?? targetOf(fallback, header) ?? KEEP_COLUMN;
+  });
+  return mapping;
+};
+
+// The first saved profile that covers every given header
+export const findMatchingProfile = (headers: string[], profiles: MappingProfile[]): MappingProfile | null => {
+  return profiles.find(profile => headers.every(header => targetOf(profile.mapping, header) !== undefined)) ?? null;
+};
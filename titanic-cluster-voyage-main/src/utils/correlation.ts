@@ -0,0 +1,226 @@
+import type { ProgressCallback } from './dataUtils';
+
+// Correlations between the features that go into PCA, read from the processed matrix.
+// Scaling is monotonic and, apart from log1p, linear, so it leaves Pearson and Spearman as they were.
+
+export type CorrelationMethod = 'pearson' | 'spearman' | 'cramersV';
+
+export const CORRELATION_METHODS: Record<CorrelationMethod, { label: string; description: string }> = {
+  pearson: { label: 'Pearson', description: 'Linear relationship between numerical features, from -1 to 1' },
+  spearman: { label: 'Spearman', description: 'Monotonic relationship between numerical features, from ranks, from -1 to 1' },
+  cramersV: {
+    label: 'Cramér\'s V',
+    description: 'Association between categorical features and numerical ones with few values, from 0 to 1'
+  }
+};
+
+export interface CorrelationMatrix {
+  features: string[];
+  values: (number | null)[][]; // null where a feature is constant
+}
+
+export interface VarianceInflation {
+  feature: string;
+  vif: number; // Infinity when the feature is an exact combination of the others
+  partner?: string; // the feature it correlates with most
+  partnerCorrelation?: number;
+}
+
+export interface CorrelationResult {
+  pearson: CorrelationMatrix;
+  spearman: CorrelationMatrix;
+  cramersV: CorrelationMatrix;
+  vif: VarianceInflation[];
+}
+
+// Numerical features with at most this many distinct values also get Cramér's V, e.g. Pclass or SibSp
+const MAX_LEVELS = 10;
+
+// VIF above which a feature is largely explained by the others
+export const HIGH_VIF = 10;
+
+const pearson = (x: number[], y: number[]): number | null => {
+  const n = x.length;
+  if (n < 2) return null;
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += x[i];
+    meanY += y[i];
+  }
+  meanX /= n;
+  meanY /= n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)));
+};
+
+// Ranks from 1, with ties sharing their average rank
+const ranks = (values: number[]): number[] => {
+  const order = values.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].i] = rank;
+    start = end + 1;
+  }
+  return result;
+};
+
+// x and y hold a level index per row
+const cramersV = (x: number[], y: number[]): number | null => {
+  const levelsX = x.reduce((most, level) => Math.max(most, level), 0) + 1;
+  const levelsY = y.reduce((most, level) => Math.max(most, level), 0) + 1;
+  const table = Array.from({ length: levelsX }, () => new Array<number>(levelsY).fill(0));
+  x.forEach((level, i) => {
+    table[level][y[i]]++;
+  });
+
+  const rowTotals = table.map(row => row.reduce((sum, count) => sum + count, 0));
+  const columnTotals = table[0].map((_, j) => table.reduce((sum, row) => sum + row[j], 0));
+  const usedRows = rowTotals.filter(total => total > 0).length;
+  const usedColumns = columnTotals.filter(total => total > 0).length;
+  const n = x.length;
+  if (Math.min(usedRows, usedColumns) < 2) return null;
+
+  let chiSquare = 0;
+  table.forEach((row, i) => row.forEach((count, j) => {
+    const expected = (rowTotals[i] * columnTotals[j]) / n;
+    if (expected > 0) chiSquare += (count - expected) ** 2 / expected;
+  }));
+  return Math.sqrt(chiSquare / (n * (Math.min(usedRows, usedColumns) - 1)));
+};
+
+const levelsOf = (values: number[]): number[] => {
+  const index = new Map<number, number>();
+  return values.map(value => {
+    if (!index.has(value)) index.set(value, index.size);
+    return index.get(value)!;
+  });
+};
+
+const matrixOf = (
+  features: string[],
+  columns: number[][],
+  measure: (x: number[], y: number[]) => number | null
+): CorrelationMatrix => {
+  const values = features.map(() => new Array<number | null>(features.length).fill(null));
+  for (let i = 0; i < features.length; i++) {
+    for (let j = i; j < features.length; j++) {
+      const value = measure(columns[i], columns[j]);
+      values[i][j] = value;
+      values[j][i] = value;
+    }
+  }
+  return { features, values };
+};
+
+// Residual variance of feature j after regressing it on the others, from the correlation matrix.
+// Features that are themselves combinations of earlier ones are skipped, so exact collinearity gives 0.
+const residualVariance = (correlations: number[][], j: number) => {
+  const a = correlations.map(row => [...row]);
+  const n = a.length;
+  for (let k = 0; k < n; k++) {
+    if (k === j || a[k][k] < 1e-10) continue;
+    for (let i = 0; i < n; i++) {
+      if (i === k) continue;
+      const factor = a[i][k] / a[k][k];
+      if (factor === 0) continue;
+      for (let l = 0; l < n; l++) a[i][l] -= factor * a[k][l];
+    }
+  }
+  return a[j][j];
+};
+
+const varianceInflation = (pearsonMatrix: CorrelationMatrix): VarianceInflation[] => {
+  // Constant features have no correlations and cannot inflate anything
+  const usable = pearsonMatrix.features
+    .map((feature, i) => ({ feature, i }))
+    .filter(({ i }) => pearsonMatrix.values[i][i] !== null);
+  const correlations = usable.map(({ i }) => usable.map(({ i: j }) => (i === j ? 1 : pearsonMatrix.values[i][j] ?? 0)));
+
+  return usable.map(({ feature }, a) => {
+    const residual = residualVariance(correlations, a);
+    let partner: string | undefined;
+    let partnerCorrelation: number | undefined;
+    correlations[a].forEach((r, b) => {
+      if (b !== a && (partnerCorrelation === undefined || Math.abs(r) > Math.abs(partnerCorrelation))) {
+        partner = usable[b].feature;
+        partnerCorrelation = r;
+      }
+    });
+    return { feature, vif: residual < 1e-8 ? Infinity : 1 / residual, partner, partnerCorrelation };
+  });
+};
+
+// The categorical feature each one-hot column belongs to; the longest matching name wins
+const categoricalBlocks = (features: string[], numericalFeatures: string[], categoricalFeatures: string[]) => {
+  return features.map((column, j) => {
+    if (j < numericalFeatures.length) return null;
+    const owners = categoricalFeatures.filter(feature => column.startsWith(`${feature}_`));
+    return owners.sort((a, b) => b.length - a.length)[0] ?? null;
+  });
+};
+
+export const analyseCorrelations = (
+  matrix: number[][],
+  features: string[],
+  numericalFeatures: string[],
+  categoricalFeatures: string[],
+  onProgress?: ProgressCallback
+): CorrelationResult => {
+  const column = (j: number) => matrix.map(row => row[j]);
+
+  const numerical = numericalFeatures.filter(feature => features.includes(feature));
+  const numericalColumns = numerical.map(feature => column(features.indexOf(feature)));
+
+  onProgress?.(0, 'Pearson correlations...');
+  const pearsonMatrix = matrixOf(numerical, numericalColumns, pearson);
+
+  onProgress?.(0.3, 'Spearman correlations...');
+  const spearmanMatrix = matrixOf(numerical, numericalColumns.map(ranks), pearson);
+
+  // Scaled one-hot columns are largest for the category a passenger has
+  onProgress?.(0.6, 'Cramér\'s V...');
+  const blocks = categoricalBlocks(features, numerical, categoricalFeatures);
+  const levelFeatures: string[] = [];
+  const levelColumns: number[][] = [];
+  numerical.forEach((feature, i) => {
+    if (new Set(numericalColumns[i]).size <= MAX_LEVELS) {
+      levelFeatures.push(feature);
+      levelColumns.push(levelsOf(numericalColumns[i]));
+    }
+  });
+  categoricalFeatures.forEach(feature => {
+    const indices = blocks.map((block, j) => (block === feature ? j : -1)).filter(j => j >= 0);
+    if (indices.length === 0) return;
+    levelFeatures.push(feature);
+    levelColumns.push(matrix.map(row => {
+      let best = 0;
+      indices.forEach((j, k) => {
+        if (row[j] > row[indices[best]]) best = k;
+      });
+      return best;
+    }));
+  });
+  const cramersMatrix = matrixOf(levelFeatures, levelColumns, cramersV);
+
+  onProgress?.(0.9, 'Variance inflation factors...');
+  const vif = varianceInflation(pearsonMatrix);
+  onProgress?.(1, 'Correlations complete');
+
+  return { pearson: pearsonMatrix, spearman: spearmanMatrix, cramersV: cramersMatrix, vif };
+};
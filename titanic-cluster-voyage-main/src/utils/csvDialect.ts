@@ -0,0 +1,162 @@
+import { createCSVParser } from './csvParser';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+export type DecimalSeparator = '.' | ',';
+
+export interface CSVDialect {
+  delimiter: string;
+  encoding: CSVEncoding;
+  decimalSeparator: DecimalSeparator;
+  hasBOM: boolean;
+}
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const ENCODING_OPTIONS: { value: CSVEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Latin-1)' }
+];
+
+// Bytes read from the start of a file for sniffing and preview
+export const SAMPLE_SIZE = 64 * 1024;
+
+// Detect the text encoding from a byte order mark, falling back to heuristics
+export const detectEncoding = (bytes: Uint8Array): { encoding: CSVEncoding; hasBOM: boolean } => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', hasBOM: true };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', hasBOM: true };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', hasBOM: true };
+  }
+
+  // UTF-16 without a BOM: ASCII text leaves every other byte zero
+  const sampleLength = Math.min(bytes.length, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+
+  const half = sampleLength / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) {
+    return { encoding: 'utf-16le', hasBOM: false };
+  }
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) {
+    return { encoding: 'utf-16be', hasBOM: false };
+  }
+
+  // Valid UTF-8 decodes strictly; anything else is most likely an Excel export in Windows-1252
+  try {
+    // Drop up to three trailing bytes so a character cut by the sample boundary is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, Math.max(0, sampleLength - 3)));
+    return { encoding: 'utf-8', hasBOM: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBOM: false };
+  }
+};
+
+// Decode bytes, dropping a leading BOM
+export const decodeBytes = (bytes: Uint8Array, encoding: CSVEncoding): string => {
+  return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+};
+
+// Keep only complete lines so a record cut by the sample boundary is not parsed
+const completeLines = (text: string, isTruncated: boolean): string => {
+  if (!isTruncated) return text;
+  const lastBreak = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r'));
+  return lastBreak > 0 ? text.slice(0, lastBreak) : text;
+};
+
+// Pick the delimiter that splits the sample into the most consistent multi-column rows
+export const sniffDelimiter = (sample: string): string => {
+  let bestDelimiter = ',';
+  let bestScore = -Infinity;
+
+  DELIMITER_OPTIONS.forEach(({ value: delimiter }) => {
+    const parser = createCSVParser({ delimiter });
+    parser.push(sample);
+    const { headers, fieldCounts } = parser.finish();
+
+    if (headers.length < 2) return;
+
+    const rows = fieldCounts.slice(0, 50);
+    const consistent = rows.filter(count => count === headers.length).length;
+    const consistency = rows.length > 0 ? consistent / rows.length : 1;
+
+    // Consistency matters most; the column count breaks ties
+    const score = consistency * 100 + Math.min(headers.length, 50);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  });
+
+  return bestDelimiter;
+};
+
+// A decimal comma is only possible when the comma is not the delimiter
+export const sniffDecimalSeparator = (sample: string, delimiter: string): DecimalSeparator => {
+  if (delimiter === ',') return '.';
+
+  const parser = createCSVParser({ delimiter });
+  parser.push(sample);
+  const { records } = parser.finish();
+
+  let commaDecimals = 0;
+  let pointDecimals = 0;
+
+  records.slice(0, 200).forEach(record => {
+    record.forEach(value => {
+      const trimmed = value.trim();
+      if (/^-?\d+,\d+$/.test(trimmed)) commaDecimals++;
+      else if (/^-?\d+\.\d+$/.test(trimmed)) pointDecimals++;
+    });
+  });
+
+  return commaDecimals > pointDecimals ? ',' : '.';
+};
+
+// Detect the full dialect from the first bytes of a file
+export const sniffDialect = (bytes: Uint8Array, isTruncated: boolean = false): CSVDialect => {
+  const { encoding, hasBOM } = detectEncoding(bytes);
+  const sample = completeLines(decodeBytes(bytes, encoding), isTruncated);
+  const delimiter = sniffDelimiter(sample);
+  const decimalSeparator = sniffDecimalSeparator(sample, delimiter);
+
+  return { delimiter, encoding, decimalSeparator, hasBOM };
+};
+
+// Parse the first rows of a sample with a given dialect for previewing
+export const previewWithDialect = (
+  bytes: Uint8Array,
+  dialect: CSVDialect,
+  isTruncated: boolean = false,
+  maxRows: number = 5
+): { headers: string[]; rows: string[][] } => {
+  const sample = completeLines(decodeBytes(bytes, dialect.encoding), isTruncated);
+  const parser = createCSVParser({ delimiter: dialect.delimiter });
+  parser.push(sample);
+  const { headers, records } = parser.finish();
+
+  return { headers, rows: records.slice(0, maxRows) };
+};
+
+// Read the start of a file for sniffing
+export const readSample = async (file: Blob): Promise<{ bytes: Uint8Array; isTruncated: boolean }> => {
+  const buffer = await file.slice(0, SAMPLE_SIZE).arrayBuffer();
+  return { bytes: new Uint8Array(buffer), isTruncated: file.size > SAMPLE_SIZE };
+};
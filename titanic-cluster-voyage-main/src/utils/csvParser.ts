@@ -0,0 +1,374 @@
+import type { ProgressCallback, TitanicPassenger } from './dataUtils';
+import { isDecimalNumber } from './values';
+
+// Row-level problems found while reading a CSV file
+export type CSVIssueKind =
+  | 'ragged-row'
+  | 'unterminated-quote'
+  | 'stray-quote'
+  | 'type-coercion';
+
+export interface CSVIssue {
+  kind: CSVIssueKind;
+  file?: string; // set when several files are loaded together
+  line: number; // 1-based physical line where the record starts
+  record?: number; // 1-based data record (header excluded)
+  column?: string;
+  message: string;
+  action: 'skipped' | 'repaired';
+}
+
+export interface CSVTable {
+  headers: string[];
+  records: string[][];
+  recordLines: number[];
+  fieldCounts: number[]; // fields per data record as read, before ragged rows are repaired
+  issues: CSVIssue[];
+}
+
+export interface CSVParseResult {
+  passengers: TitanicPassenger[];
+  issues: CSVIssue[];
+}
+
+export interface CSVParserOptions {
+  delimiter?: string;
+  decimalSeparator?: '.' | ',';
+}
+
+// Columns coerced to numbers when converting records to passengers
+export const INTEGER_COLUMNS = ['PassengerId', 'Survived', 'Pclass', 'SibSp', 'Parch'];
+export const FLOAT_COLUMNS = ['Age', 'Fare'];
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+// Streaming RFC 4180 parser: feed text chunks with push() and call finish() at the end.
+// Quoted fields may contain delimiters, CR/LF and "" escaped quotes; CRLF, LF and CR
+// all terminate records. Problems are reported as issues instead of thrown.
+export const createCSVParser = (options: CSVParserOptions = {}) => {
+  const delimiter = options.delimiter ?? ',';
+
+  let headers: string[] | null = null;
+  const records: string[][] = [];
+  const recordLines: number[] = [];
+  const fieldCounts: number[] = [];
+  const issues: CSVIssue[] = [];
+
+  let state: ParserState = 'fieldStart';
+  let field = '';
+  let row: string[] = [];
+  let line = 1;
+  let rowStartLine = 1;
+  let pendingCR = false;
+  let strayQuote = false;
+  let quotedRaw = '';
+  let quoteLine = 1;
+  let recordCount = 0;
+
+  const commitRecord = (fields: string[], startLine: number, hadStrayQuote: boolean) => {
+    // Blank lines carry no data
+    if (fields.length === 1 && fields[0].trim() === '') return;
+
+    if (!headers) {
+      // A UTF-8 BOM left in the text would otherwise corrupt the first header
+      headers = fields.map(header => header.replace(/^\uFEFF/, '').trim());
+      return;
+    }
+
+    recordCount++;
+    fieldCounts.push(fields.length);
+    const record = recordCount;
+
+    if (hadStrayQuote) {
+      issues.push({
+        kind: 'stray-quote',
+        line: startLine,
+        record,
+        message: 'Quote character inside an unquoted field was kept as text',
+        action: 'repaired'
+      });
+    }
+
+    if (fields.length < headers.length) {
+      issues.push({
+        kind: 'ragged-row',
+        line: startLine,
+        record,
+        message: `Expected ${headers.length} fields but found ${fields.length}; missing fields left empty`,
+        action: 'repaired'
+      });
+      fields = [...fields, ...Array(headers.length - fields.length).fill('')];
+    } else if (fields.length > headers.length) {
+      const extra = fields.slice(headers.length);
+
+      if (extra.some(value => value.trim() !== '')) {
+        issues.push({
+          kind: 'ragged-row',
+          line: startLine,
+          record,
+          message: `Expected ${headers.length} fields but found ${fields.length}`,
+          action: 'skipped'
+        });
+        return;
+      }
+
+      issues.push({
+        kind: 'ragged-row',
+        line: startLine,
+        record,
+        message: `Dropped ${extra.length} trailing empty field(s)`,
+        action: 'repaired'
+      });
+      fields = fields.slice(0, headers.length);
+    }
+
+    records.push(fields);
+    recordLines.push(startLine);
+  };
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    commitRecord(row, rowStartLine, strayQuote);
+    row = [];
+    strayQuote = false;
+  };
+
+  // Handle a record terminator outside quotes
+  const newline = (char: string) => {
+    endRecord();
+    line++;
+    rowStartLine = line;
+    pendingCR = char === '\r';
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // Second half of a CRLF pair that may span two chunks
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (state === 'quoted' || state === 'quoteInQuoted') {
+        quotedRaw += char;
+      }
+
+      switch (state) {
+        case 'fieldStart':
+          if (char === '"') {
+            state = 'quoted';
+            quotedRaw = '';
+            quoteLine = line;
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            newline(char);
+          } else {
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (char === delimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            newline(char);
+          } else {
+            if (char === '"') strayQuote = true;
+            field += char;
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            state = 'quoteInQuoted';
+          } else {
+            if (char === '\n') line++;
+            field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            // Escaped quote ("")
+            field += '"';
+            state = 'quoted';
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            newline(char);
+          } else {
+            // Text after a closing quote: keep both as literal text
+            strayQuote = true;
+            field += '"' + char;
+            state = 'unquoted';
+          }
+          break;
+      }
+    }
+  };
+
+  const push = (chunk: string) => {
+    consume(chunk);
+  };
+
+  const finish = (): CSVTable => {
+    // An opening quote that never closed swallowed the rest of the input. Treat it
+    // as literal text and replay what followed so later records are recovered.
+    while (state === 'quoted') {
+      const replay = quotedRaw;
+      issues.push({
+        kind: 'unterminated-quote',
+        line: rowStartLine,
+        record: headers ? recordCount + 1 : undefined,
+        message: 'Opening quote was never closed; treated it as a literal character',
+        action: 'repaired'
+      });
+
+      line = quoteLine;
+      field = '"';
+      state = 'unquoted';
+      strayQuote = false;
+      pendingCR = false;
+      quotedRaw = '';
+      consume(replay);
+    }
+
+    if (state !== 'fieldStart' || row.length > 0 || field !== '') {
+      endRecord();
+    }
+
+    return {
+      headers: headers ?? [],
+      records,
+      recordLines,
+      fieldCounts,
+      issues
+    };
+  };
+
+  return { push, finish };
+};
+
+// Convert a parsed table to passengers, coercing the known numeric columns
+export const toPassengers = (table: CSVTable, options: CSVParserOptions = {}): CSVParseResult => {
+  const issues = [...table.issues];
+  const decimalComma = options.decimalSeparator === ',';
+
+  const passengers = table.records.map((record, index) => {
+    const passenger: TitanicPassenger = {};
+
+    table.headers.forEach((header, column) => {
+      const value = record[column] ?? '';
+      const isInteger = INTEGER_COLUMNS.includes(header);
+
+      if (!isInteger && !FLOAT_COLUMNS.includes(header)) {
+        passenger[header] = value;
+        return;
+      }
+
+      const trimmed = value.trim();
+      if (trimmed === '') {
+        passenger[header] = null;
+        return;
+      }
+
+      const text = decimalComma ? trimmed.replace(',', '.') : trimmed;
+      // Number() alone would also read "0x10", "0b1" or "Infinity"
+      const parsed = isDecimalNumber(text) ? Number(text) : NaN;
+      if (!Number.isFinite(parsed) || (isInteger && !Number.isInteger(parsed))) {
+        issues.push({
+          kind: 'type-coercion',
+          line: table.recordLines[index],
+          record: index + 1,
+          column: header,
+          message: `"${trimmed}" is not a valid ${isInteger ? 'integer' : 'number'}; value set to missing`,
+          action: 'repaired'
+        });
+        passenger[header] = null;
+      } else {
+        passenger[header] = parsed;
+      }
+    });
+
+    return passenger;
+  });
+
+  issues.sort((a, b) => a.line - b.line);
+
+  return { passengers, issues };
+};
+
+// Parse a complete CSV string
+export const parseCSVText = (csvText: string, options: CSVParserOptions = {}): CSVParseResult => {
+  const parser = createCSVParser(options);
+  parser.push(csvText);
+  return toPassengers(parser.finish(), options);
+};
+
+// Read a stream of decoded text chunks into a table without holding the whole file in one string
+export const readCSVStream = async (
+  stream: ReadableStream<string>,
+  options: CSVParserOptions = {}
+): Promise<CSVTable> => {
+  const parser = createCSVParser(options);
+  const reader = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(value);
+  }
+
+  return parser.finish();
+};
+
+export interface ReadCSVFileOptions extends CSVParserOptions {
+  encoding?: string;
+  onProgress?: ProgressCallback; // called with the share of bytes read
+}
+
+// Read an uploaded file as a stream of text in the given encoding (UTF-8 by default)
+export const readCSVFile = (
+  file: Blob,
+  options: ReadCSVFileOptions = {}
+): Promise<CSVTable> => {
+  const { onProgress } = options;
+  let bytesRead = 0;
+
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      onProgress?.(file.size > 0 ? bytesRead / file.size : 1, 'Parsing file');
+      controller.enqueue(chunk);
+    }
+  });
+
+  const decoder = new TextDecoderStream(options.encoding ?? 'utf-8');
+  return readCSVStream(file.stream().pipeThrough(counter).pipeThrough(decoder), options);
+};
+
+// Parse a stream of decoded text chunks
+export const parseCSVStream = async (
+  stream: ReadableStream<string>,
+  options: CSVParserOptions = {}
+): Promise<CSVParseResult> => {
+  return toPassengers(await readCSVStream(stream, options), options);
+};
+
+// Parse an uploaded file
+export const parseCSVFile = async (
+  file: Blob,
+  options: ReadCSVFileOptions = {}
+): Promise<CSVParseResult> => {
+  return toPassengers(await readCSVFile(file, options), options);
+};
@@ -1,3 +1,10 @@
+import { z } from 'zod';
+import { parseCSVText } from './csvParser';
+import { imputeColumns, ImputationReport, ImputationStrategies } from './imputation';
+import type { CellChange } from './lineage';
+import type { OutlierReport } from './outliers';
+import type { PipelineConfig, PipelineStepRecord, PreprocessingModel } from './pipeline';
+import { isDecimalNumber, isMissing, toNumber } from './values';
 
 // Data types for Titanic dataset
 export interface TitanicPassenger {
@@ -22,69 +29,327 @@ export interface ProcessedData {
   features: string[];
   categoricalFeatures: string[];
   numericalFeatures: string[];
-  survivedColumn?: number[];
+  survivedColumn?: (number | null)[]; // null for unlabelled rows, e.g. the Kaggle test split
+  config?: PipelineConfig; // the configuration that produced this result, so the run can be repeated
+  imputation?: ImputationReport; // the values that were filled in, per column
+  missingIndicators?: Record<string, number[]>; // 0/1 per row for each <column>_missing feature
+  derivedColumns?: Record<string, (number | string | null)[]>; // value per row for each formula column
+  outliers?: OutlierReport; // passengers the outlier step found; excluded ones were left out of fitting
+  lineage?: CellChange[]; // values the steps changed in existing columns, such as imputed or clipped ones
+  stepLog?: PipelineStepRecord[]; // timing, size and first rows of each step's output, in run order
+  model?: PreprocessingModel; // fitted parameters, to transform new passengers the same way
 }
 
-// Helper function to parse CSV
+// Reports how far a long computation has got, as a fraction between 0 and 1
+export type ProgressCallback = (fraction: number, message: string) => void;
+
+// Column added when several files are loaded together, naming the file each row came from
+export const SPLIT_COLUMN = 'Split';
+
+// Helper function to parse CSV (row-level issues are dropped; use parseCSVText to get them)
 export const parseCSV = (csvText: string): TitanicPassenger[] => {
-  const lines = csvText.trim().split('\n');
-  const headers = lines[0].split(',').map(header => header.trim());
-  
-  return lines.slice(1).map(line => {
-    // Handle quoted fields properly
-    const values: string[] = [];
-    let inQuotes = false;
-    let currentValue = '';
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"' && (i === 0 || line[i-1] !== '\\')) {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(currentValue);
-        currentValue = '';
-      } else {
-        currentValue += char;
+  return parseCSVText(csvText).passengers;
+};
+
+// Schema validation
+
+export interface ValidationIssue {
+  row: number; // 0-based row index
+  field: string;
+  value: unknown;
+  message: string;
+}
+
+export interface ValidationNormalisation {
+  field: string;
+  from: string;
+  to: string | number;
+  count: number;
+}
+
+export interface ValidationReport {
+  totalRows: number;
+  invalidRows: number;
+  errors: ValidationIssue[];
+  normalisations: ValidationNormalisation[];
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+// Known spellings mapped to their canonical values
+const SEX_VARIANTS: Record<string, string> = {
+  m: 'male', male: 'male', man: 'male', boy: 'male',
+  f: 'female', female: 'female', woman: 'female', girl: 'female', w: 'female'
+};
+
+const PORT_VARIANTS: Record<string, string> = {
+  s: 'S', southampton: 'S',
+  c: 'C', cherbourg: 'C',
+  q: 'Q', queenstown: 'Q', cobh: 'Q'
+};
+
+const PCLASS_VARIANTS: Record<string, number> = {
+  '1st': 1, first: 1, upper: 1,
+  '2nd': 2, second: 2, middle: 2,
+  '3rd': 3, third: 3, lower: 3
+};
+
+const SURVIVED_VARIANTS: Record<string, number> = {
+  yes: 1, y: 1, true: 1, survived: 1,
+  no: 0, n: 0, false: 0, died: 0
+};
+
+// Decimal numbers stored as text ("7,25" or " 22 ") become numbers; blanks become null.
+// Other text, such as "0x1F" or "Infinity", is left for the schema to reject.
+const parseNumber = (value: unknown) => {
+  if (isBlank(value)) return null;
+  if (typeof value === 'string') {
+    const parsed = toNumber(value.trim().replace(',', '.'));
+    return parsed === null ? value : parsed;
+  }
+  return value;
+};
+
+const fromVariants = <T>(variants: Record<string, T>, fallback: (value: unknown) => unknown) =>
+  (value: unknown) => {
+    if (isBlank(value)) return null;
+    const key = String(value).trim().toLowerCase();
+    return key in variants ? variants[key] : fallback(value);
+  };
+
+const toText = (value: unknown) =>
+  value === null || value === undefined ? null : String(value);
+
+const integer = (min: number, max?: number) => {
+  let schema = z.number({ invalid_type_error: 'must be a number' })
+    .finite('must be a finite number')
+    .int('must be a whole number')
+    .min(min, `must be at least ${min}`);
+  if (max !== undefined) schema = schema.max(max, `must be at most ${max}`);
+  return schema.nullable();
+};
+
+// Runtime schema for one passenger row. Each field normalises known variants before checking.
+export const passengerSchema = z.object({
+  PassengerId: z.preprocess(parseNumber, integer(1)).optional(),
+  Survived: z.preprocess(fromVariants(SURVIVED_VARIANTS, parseNumber), integer(0, 1)).optional(),
+  Pclass: z.preprocess(fromVariants(PCLASS_VARIANTS, parseNumber), integer(1, 3)).optional(),
+  Name: z.preprocess(toText, z.string().nullable()).optional(),
+  Sex: z.preprocess(
+    fromVariants(SEX_VARIANTS, v => v),
+    z.enum(['male', 'female'], { message: 'must be male or female' }).nullable()
+  ).optional(),
+  Age: z.preprocess(
+    parseNumber,
+    z.number({ invalid_type_error: 'must be a number' })
+      .finite('must be a finite number')
+      .min(0, 'cannot be negative')
+      .max(120, 'must be at most 120')
+      .nullable()
+  ).optional(),
+  SibSp: z.preprocess(parseNumber, integer(0)).optional(),
+  Parch: z.preprocess(parseNumber, integer(0)).optional(),
+  Ticket: z.preprocess(toText, z.string().nullable()).optional(),
+  Fare: z.preprocess(
+    parseNumber,
+    z.number({ invalid_type_error: 'must be a number' })
+      .finite('must be a finite number')
+      .min(0, 'cannot be negative')
+      .nullable()
+  ).optional(),
+  Cabin: z.preprocess(toText, z.string().nullable()).optional(),
+  Embarked: z.preprocess(
+    fromVariants(PORT_VARIANTS, v => v),
+    z.enum(['S', 'C', 'Q'], { message: 'must be S, C or Q' }).nullable()
+  ).optional()
+}).passthrough();
+
+export type ValidatedPassenger = z.infer<typeof passengerSchema>;
+
+// Validate and normalise every row. Invalid values are replaced with null in the returned
+// passengers so they can be imputed, and listed in the report so the user can review them.
+export const validatePassengers = (
+  data: TitanicPassenger[]
+): {
+  passengers: TitanicPassenger[];
+  report: ValidationReport;
+} => {
+  const shape = passengerSchema.shape;
+  const fields = Object.keys(shape) as (keyof typeof shape & string)[];
+  const errors: ValidationIssue[] = [];
+  const normalisationCounts: Record<string, ValidationNormalisation> = {};
+  const invalidRowSet = new Set<number>();
+
+  const passengers = data.map((row, rowIndex) => {
+    const validated: Record<string, unknown> = { ...row };
+
+    fields.forEach(field => {
+      if (!(field in row)) return;
+
+      const value = row[field];
+      const result = shape[field].safeParse(value);
+
+      if (!result.success) {
+        errors.push({
+          row: rowIndex,
+          field,
+          value,
+          message: `${field} ${result.error.issues[0]?.message ?? 'is invalid'}`
+        });
+        invalidRowSet.add(rowIndex);
+        validated[field] = null;
+        return;
       }
-    }
-    
-    values.push(currentValue); // Add the last value
-    
-    const passenger: TitanicPassenger = {};
-    headers.forEach((header, index) => {
-      const value = values[index]?.replace(/^"|"$/g, '') || '';
-      
-      // Convert to appropriate types
-      if (header === 'PassengerId' || header === 'Survived' || header === 'Pclass' || header === 'SibSp' || header === 'Parch') {
-        passenger[header] = value === '' ? null : parseInt(value, 10);
-      } else if (header === 'Age' || header === 'Fare') {
-        passenger[header] = value === '' ? null : parseFloat(value);
-      } else {
-        passenger[header] = value;
+
+      validated[field] = result.data;
+
+      // Blank → null is not worth reporting; real spelling changes are
+      if (!isBlank(value) && result.data !== value && typeof value === 'string') {
+        const key = `${field}\u0000${value}`;
+        if (!normalisationCounts[key]) {
+          normalisationCounts[key] = { field, from: value, to: result.data as string | number, count: 0 };
+        }
+        normalisationCounts[key].count++;
       }
     });
-    
-    return passenger;
+
+    return validated as TitanicPassenger;
   });
+
+  return {
+    passengers,
+    report: {
+      totalRows: data.length,
+      invalidRows: invalidRowSet.size,
+      errors,
+      normalisations: Object.values(normalisationCounts).sort((a, b) => b.count - a.count)
+    }
+  };
+};
+
+// Combine passengers from several files, tagging each row with its source split
+export const combineSplits = (
+  parts: { split: string; passengers: TitanicPassenger[] }[]
+): TitanicPassenger[] => {
+  return parts.flatMap(({ split, passengers }) =>
+    passengers.map(passenger => ({ ...passenger, [SPLIT_COLUMN]: split }))
+  );
+};
+
+// Guess a split name from a file name ("train.csv" → "train")
+export const splitNameFromFile = (fileName: string): string => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  if (/test/i.test(base)) return 'test';
+  if (/train/i.test(base)) return 'train';
+  return base;
 };
 
-// Feature engineering function
-export const engineerFeatures = (data: TitanicPassenger[]): TitanicPassenger[] => {
+// Engineered features that can be turned on one by one
+export type EngineeredFeatureId =
+  | 'familySize'
+  | 'title'
+  | 'normaliseTitle'
+  | 'hasCabin'
+  | 'deck'
+  | 'cabinCount'
+  | 'ticketPrefix'
+  | 'ticketGroupSize'
+  | 'farePerPerson'
+  | 'isAlone'
+  | 'ageBand';
+
+export const ENGINEERED_FEATURES: Record<EngineeredFeatureId, { label: string; description: string }> = {
+  familySize: { label: 'FamilySize', description: 'SibSp + Parch + 1' },
+  title: { label: 'Title', description: 'The title in Name, e.g. Mr from "Braund, Mr. Owen Harris"' },
+  normaliseTitle: {
+    label: 'Grouped Title',
+    description: 'Title with Mlle and Ms as Miss, Mme as Mrs and every title other than Mr, Mrs, Miss and Master as Rare'
+  },
+  hasCabin: { label: 'HasCabin', description: '1 when a cabin is known, otherwise 0' },
+  deck: { label: 'Deck', description: 'The letter of the first cabin, e.g. C for "C85", or U when no cabin is known' },
+  cabinCount: { label: 'CabinCount', description: 'Number of cabins listed, e.g. 3 for "C23 C25 C27"' },
+  ticketPrefix: { label: 'TicketPrefix', description: 'Letters before the ticket number, e.g. A5 for "A/5 21171", or None' },
+  ticketGroupSize: { label: 'TicketGroupSize', description: 'Number of passengers sharing the same ticket' },
+  farePerPerson: { label: 'FarePerPerson', description: 'Fare divided by the ticket group size, as a fare covers everyone on the ticket' },
+  isAlone: { label: 'IsAlone', description: '1 when travelling without siblings, spouse, parents or children' },
+  ageBand: { label: 'AgeBand', description: 'Age as a band: 0-12, 13-17, 18-34, 35-59 or 60+' }
+};
+
+// The features engineered before they could be chosen
+export const DEFAULT_ENGINEERED_FEATURES: EngineeredFeatureId[] = ['familySize', 'title', 'hasCabin'];
+
+const COMMON_TITLES: Record<string, string> = {
+  Mr: 'Mr', Mrs: 'Mrs', Miss: 'Miss', Master: 'Master',
+  Mlle: 'Miss', Ms: 'Miss', Mme: 'Mrs'
+};
+
+const AGE_BANDS: [number, string][] = [[13, '0-12'], [18, '13-17'], [35, '18-34'], [60, '35-59'], [Infinity, '60+']];
+
+const ticketKey = (ticket: unknown) => (typeof ticket === 'string' ? ticket.trim() : '');
+
+// Passengers per ticket
+export const countTickets = (data: TitanicPassenger[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  data.forEach(passenger => {
+    const key = ticketKey(passenger.Ticket);
+    if (key) counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+// Feature engineering function. Ticket group sizes come from knownTickets where a ticket
+// is listed, e.g. the training rows' counts, and from the rows themselves otherwise.
+export const engineerFeatures = (
+  data: TitanicPassenger[],
+  features: EngineeredFeatureId[] = DEFAULT_ENGINEERED_FEATURES,
+  knownTickets: Record<string, number> = {}
+): TitanicPassenger[] => {
+  const has = (feature: EngineeredFeatureId) => features.includes(feature);
+  const rowTickets = countTickets(data);
+  
   return data.map(passenger => {
     const enhanced = { ...passenger };
+    const familySize = (passenger.SibSp || 0) + (passenger.Parch || 0) + 1;
+    const cabins = typeof passenger.Cabin === 'string' ? passenger.Cabin.trim().split(/\s+/).filter(Boolean) : [];
+    const ticket = ticketKey(passenger.Ticket);
+    const groupSize = ticket ? knownTickets[ticket] ?? rowTickets[ticket] : 1;
     
     // Calculate family size
-    enhanced.FamilySize = (passenger.SibSp || 0) + (passenger.Parch || 0) + 1;
+    if (has('familySize')) enhanced.FamilySize = familySize;
     
     // Extract title from name
-    if (passenger.Name) {
+    if ((has('title') || has('normaliseTitle')) && passenger.Name) {
       const match = passenger.Name.match(/,\s*([^\s\.]+)\./);
-      enhanced.Title = match ? match[1] : 'Unknown';
+      const title = match ? match[1] : 'Unknown';
+      enhanced.Title = has('normaliseTitle') ? COMMON_TITLES[title] ?? 'Rare' : title;
     }
     
     // Create HasCabin feature
-    enhanced.HasCabin = passenger.Cabin && passenger.Cabin !== '' ? 1 : 0;
+    if (has('hasCabin')) enhanced.HasCabin = passenger.Cabin && passenger.Cabin !== '' ? 1 : 0;
+    
+    if (has('deck')) enhanced.Deck = cabins.length > 0 ? cabins[0][0].toUpperCase() : 'U';
+    if (has('cabinCount')) enhanced.CabinCount = cabins.length;
+    
+    if (has('ticketPrefix')) {
+      const prefix = ticket.replace(/\s*\d+$/, '').replace(/[./\s]/g, '').toUpperCase();
+      enhanced.TicketPrefix = prefix || 'None';
+    }
+    if (has('ticketGroupSize')) enhanced.TicketGroupSize = groupSize;
+    if (has('farePerPerson')) {
+      enhanced.FarePerPerson = typeof passenger.Fare === 'number' && !isNaN(passenger.Fare)
+        ? passenger.Fare / groupSize
+        : null;
+    }
+    
+    if (has('isAlone')) enhanced.IsAlone = familySize === 1 ? 1 : 0;
+    
+    // Missing ages stay missing and are filled by imputation like any other gap
+    if (has('ageBand')) {
+      enhanced.AgeBand = typeof passenger.Age === 'number' && !isNaN(passenger.Age)
+        ? AGE_BANDS.find(([upper]) => passenger.Age! < upper)![1]
+        : null;
+    }
     
     return enhanced;
   });
@@ -95,14 +360,18 @@ export const separateFeatures = (
   data: TitanicPassenger[]
 ): { 
   features: TitanicPassenger[]; 
-  survived?: number[]; 
+  survived?: (number | null)[]; 
 } => {
   const features = data.map(passenger => {
     const { Survived, ...rest } = passenger;
     return rest;
   });
   
-  const survived = data.map(passenger => passenger.Survived || 0);
+  // Missing labels stay null so they are not counted as deaths
+  const hasLabels = data.some(passenger => typeof passenger.Survived === 'number');
+  const survived = hasLabels
+    ? data.map(passenger => (typeof passenger.Survived === 'number' ? passenger.Survived : null))
+    : undefined;
   
   return {
     features,
@@ -110,27 +379,105 @@ export const separateFeatures = (
   };
 };
 
+// Column type inference
+
+export type FeatureType = 'numerical' | 'categorical';
+
+// Column → type chosen by the user, taking precedence over inference
+export type FeatureTypeOverrides = Record<string, FeatureType>;
+
+export interface ColumnTypeInference {
+  type: FeatureType;
+  confidence: number; // share of non-missing values that agree with the inferred type
+  nonMissing: number;
+  conflicts: { value: unknown; count: number }[]; // most frequent values that disagree
+}
+
+// Features left out unless the pipeline configuration says otherwise; Survived is always the target
+export const EXCLUDED_FEATURES = ['PassengerId', 'Name', 'Ticket', 'Cabin', 'Survived', SPLIT_COLUMN];
+
+const MAX_CONFLICTS = 5;
+
+// Numbers and numeric strings such as "3" or "-1.5e2" both count as numerical
+const isNumericValue = (value: unknown): boolean => {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && isDecimalNumber(value);
+};
+
+// Infer each column's type from every non-missing value rather than the first row
+export const inferColumnTypes = (data: TitanicPassenger[]): Record<string, ColumnTypeInference> => {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  data.forEach(row => {
+    Object.keys(row).forEach(column => {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    });
+  });
+
+  const inferences: Record<string, ColumnTypeInference> = {};
+
+  columns.forEach(column => {
+    const numeric = new Map<string, { value: unknown; count: number }>();
+    const other = new Map<string, { value: unknown; count: number }>();
+    let numericCount = 0;
+    let nonMissing = 0;
+
+    data.forEach(row => {
+      const value = row[column];
+      if (isMissing(value)) return;
+      nonMissing++;
+
+      const isNumeric = isNumericValue(value);
+      if (isNumeric) numericCount++;
+
+      const bucket = isNumeric ? numeric : other;
+      const key = JSON.stringify(value);
+      const entry = bucket.get(key);
+      if (entry) entry.count++;
+      else bucket.set(key, { value, count: 1 });
+    });
+
+    // Ties and empty columns fall back to categorical, which never breaks arithmetic
+    const type: FeatureType = nonMissing > 0 && numericCount > nonMissing / 2 ? 'numerical' : 'categorical';
+    const agreeing = type === 'numerical' ? numericCount : nonMissing - numericCount;
+    const conflicting = type === 'numerical' ? other : numeric;
+
+    inferences[column] = {
+      type,
+      confidence: nonMissing > 0 ? agreeing / nonMissing : 0,
+      nonMissing,
+      conflicts: [...conflicting.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_CONFLICTS)
+    };
+  });
+
+  return inferences;
+};
+
 // Identify numerical and categorical features
 export const identifyFeatureTypes = (
-  data: TitanicPassenger[]
+  data: TitanicPassenger[],
+  overrides: FeatureTypeOverrides = {},
+  excluded: string[] = EXCLUDED_FEATURES
 ): {
   numericalFeatures: string[];
   categoricalFeatures: string[];
 } => {
   if (data.length === 0) return { numericalFeatures: [], categoricalFeatures: [] };
   
-  const samplePassenger = data[0];
+  const inferences = inferColumnTypes(data);
   const numericalFeatures: string[] = [];
   const categoricalFeatures: string[] = [];
   
-  // Features to exclude completely
-  const excludeFeatures = ['PassengerId', 'Name', 'Ticket', 'Cabin', 'Survived'];
-  
-  for (const feature in samplePassenger) {
-    if (excludeFeatures.includes(feature)) continue;
+  for (const feature in inferences) {
+    if (feature === 'Survived' || excluded.includes(feature)) continue;
     
-    const value = samplePassenger[feature];
-    if (typeof value === 'number') {
+    const type = overrides[feature] ?? inferences[feature].type;
+    if (type === 'numerical') {
       numericalFeatures.push(feature);
     } else {
       categoricalFeatures.push(feature);
@@ -140,85 +487,88 @@ export const identifyFeatureTypes = (
   return { numericalFeatures, categoricalFeatures };
 };
 
-// Simple imputation for missing values
-export const imputeMissingValues = (data: TitanicPassenger[]): TitanicPassenger[] => {
-  // First, calculate medians and modes
-  const medians: Record<string, number> = {};
-  const modes: Record<string, any> = {};
-  
-  const { numericalFeatures, categoricalFeatures } = identifyFeatureTypes(data);
-  
-  // Calculate medians for numerical features
-  numericalFeatures.forEach(feature => {
-    const validValues = data
-      .map(p => p[feature])
-      .filter(v => v !== null && v !== undefined) as number[];
-      
-    if (validValues.length > 0) {
-      // Sort and find median
-      validValues.sort((a, b) => a - b);
-      const mid = Math.floor(validValues.length / 2);
-      medians[feature] = validValues.length % 2 === 0
-        ? (validValues[mid - 1] + validValues[mid]) / 2
-        : validValues[mid];
-    } else {
-      medians[feature] = 0;
-    }
-  });
-  
-  // Calculate modes for categorical features
-  categoricalFeatures.forEach(feature => {
-    const valueCounts: Record<string, number> = {};
-    
-    data.forEach(passenger => {
-      const value = passenger[feature];
-      if (value !== null && value !== undefined && value !== '') {
-        valueCounts[value as string] = (valueCounts[value as string] || 0) + 1;
-      }
-    });
-    
-    let maxCount = 0;
-    let modeValue = '';
-    
-    Object.entries(valueCounts).forEach(([value, count]) => {
-      if (count > maxCount) {
-        maxCount = count;
-        modeValue = value;
-      }
-    });
-    
-    modes[feature] = modeValue;
-  });
-  
-  // Apply imputation
+// Convert values to their column's type; values that do not fit become missing and get imputed
+export const coerceFeatureTypes = (
+  data: TitanicPassenger[],
+  numericalFeatures: string[],
+  categoricalFeatures: string[]
+): TitanicPassenger[] => {
   return data.map(passenger => {
-    const imputed = { ...passenger };
+    const coerced = { ...passenger };
     
     numericalFeatures.forEach(feature => {
-      if (imputed[feature] === null || imputed[feature] === undefined) {
-        imputed[feature] = medians[feature];
-      }
+      const value = coerced[feature];
+      coerced[feature] = isNumericValue(value) ? Number(value) : null;
     });
     
     categoricalFeatures.forEach(feature => {
-      if (imputed[feature] === null || imputed[feature] === undefined || imputed[feature] === '') {
-        imputed[feature] = modes[feature];
-      }
+      const value = coerced[feature];
+      coerced[feature] = isMissing(value) ? null : String(value);
     });
     
-    return imputed;
+    return coerced;
+  });
+};
+
+// Rows with per-row column values added, e.g. derived columns kept beside the original data
+export const withColumns = (
+  data: TitanicPassenger[],
+  columns: Record<string, unknown[]> = {}
+): TitanicPassenger[] => {
+  const entries = Object.entries(columns);
+  if (entries.length === 0) return data;
+  return data.map((passenger, i) => {
+    const row = { ...passenger };
+    entries.forEach(([name, values]) => {
+      row[name] = values[i];
+    });
+    return row;
   });
 };
 
+// Name of the 0/1 column that records whether a value was missing before imputation
+export const missingIndicatorName = (column: string) => `${column}_missing`;
+
+// Add a missing-value indicator for each column, so the signal survives imputation
+export const addMissingIndicators = (
+  data: TitanicPassenger[],
+  columns: string[]
+): TitanicPassenger[] => {
+  return data.map(passenger => {
+    const indicated = { ...passenger };
+    columns.forEach(column => {
+      const value = passenger[column];
+      indicated[missingIndicatorName(column)] = isMissing(value) ? 1 : 0;
+    });
+    return indicated;
+  });
+};
+
+// Fill missing values: median or mode unless a column has its own strategy
+export const imputeMissingValues = (
+  data: TitanicPassenger[],
+  overrides: FeatureTypeOverrides = {},
+  excluded: string[] = EXCLUDED_FEATURES,
+  strategies: ImputationStrategies = {}
+): TitanicPassenger[] => {
+  const { numericalFeatures, categoricalFeatures } = identifyFeatureTypes(data, overrides, excluded);
+  const typed = coerceFeatureTypes(data, numericalFeatures, categoricalFeatures);
+  return imputeColumns(typed, numericalFeatures, categoricalFeatures, strategies).rows;
+};
+
 // One-hot encode categorical features
 export const oneHotEncodeCategorical = (
   data: TitanicPassenger[],
-  categoricalFeatures: string[]
+  categoricalFeatures: string[],
+  overrides: FeatureTypeOverrides = {},
+  excluded: string[] = EXCLUDED_FEATURES
 ): {
   encodedData: number[][];
   features: string[];
+  blocks: string[]; // the feature each column came from, e.g. Title for Title_Mr
 } => {
   const features: string[] = [];
+  const blocks: string[] = [];
   
   // Find all possible categorical values
   const categoricalValues: Record<string, Set<string>> = {};
@@ -235,17 +585,19 @@ export const oneHotEncodeCategorical = (
   });
   
   // Create feature names for one-hot encoding
-  const { numericalFeatures } = identifyFeatureTypes(data);
+  const { numericalFeatures } = identifyFeatureTypes(data, overrides, excluded);
   
   // Add numerical features first
   numericalFeatures.forEach(feature => {
     features.push(feature);
+    blocks.push(feature);
   });
   
   // Add categorical features (one-hot encoded)
   categoricalFeatures.forEach(feature => {
     categoricalValues[feature].forEach(value => {
       features.push(`${feature}_${value}`);
+      blocks.push(feature);
     });
   });
   
@@ -268,7 +620,7 @@ export const oneHotEncodeCategorical = (
     return row;
   });
   
-  return { encodedData, features };
+  return { encodedData, features, blocks };
 };
 
 // Standardize numerical features
@@ -309,39 +661,6 @@ export const standardizeData = (data: number[][]): number[][] => {
   });
 };
 
-// Full preprocessing pipeline
-export const preprocessData = (rawData: TitanicPassenger[]): ProcessedData => {
-  // Engineer features
-  const enhancedData = engineerFeatures(rawData);
-  
-  // Separate features and target
-  const { features, survived } = separateFeatures(enhancedData);
-  
-  // Identify feature types
-  const { numericalFeatures, categoricalFeatures } = identifyFeatureTypes(features);
-  
-  // Impute missing values
-  const imputedData = imputeMissingValues(features);
-  
-  // One-hot encode categorical features
-  const { encodedData, features: allFeatures } = oneHotEncodeCategorical(
-    imputedData,
-    categoricalFeatures
-  );
-  
-  // Standardize numerical data
-  const standardizedData = standardizeData(encodedData);
-  
-  return {
-    original: rawData,
-    processed: standardizedData,
-    features: allFeatures,
-    categoricalFeatures,
-    numericalFeatures,
-    survivedColumn: survived
-  };
-};
-
 // Utility functions for cluster analysis
 export const getClusterProfiles = (
   data: TitanicPassenger[],
@@ -361,13 +680,14 @@ export const getClusterProfiles = (
     const firstPassenger = clusterPassengers[0];
     
     for (const feature in firstPassenger) {
-      if (typeof firstPassenger[feature] === 'number') {
-        // Calculate average for numerical features
-        const sum = clusterPassengers.reduce(
-          (acc, p) => acc + (p[feature] as number || 0), 
-          0
-        );
-        profile[feature] = sum / clusterPassengers.length;
+      const numericValues = clusterPassengers
+        .map(p => p[feature])
+        .filter(v => typeof v === 'number') as number[];
+      
+      if (numericValues.length > 0) {
+        // Calculate average for numerical features, skipping missing values
+        const sum = numericValues.reduce((acc, v) => acc + v, 0);
+        profile[feature] = sum / numericValues.length;
       } else {
         // Calculate mode for categorical features
         const valueCounts: Record<string, number> = {};
@@ -397,9 +717,9 @@ export const getClusterProfiles = (
   return profiles;
 };
 
-// Calculate survival rates per cluster
+// Calculate survival rates per cluster from labelled rows only
 export const getClusterSurvivalRates = (
-  survived: number[] | undefined,
+  survived: (number | null)[] | undefined,
   clusters: number[]
 ): Record<number, number> => {
   if (!survived) return {};
@@ -408,11 +728,12 @@ export const getClusterSurvivalRates = (
   const survivalRates: Record<number, number> = {};
   
   uniqueClusters.forEach(cluster => {
-    const clusterSurvived = survived.filter((s, i) => clusters[i] === cluster);
+    const clusterSurvived = survived.filter(
+      (s, i) => clusters[i] === cluster && s !== null && s !== undefined
+    ) as number[];
     
-    if (clusterSurvived.length === 0) {
-      survivalRates[cluster] = 0;
-    } else {
+    // Clusters without labelled passengers have no survival rate
+    if (clusterSurvived.length > 0) {
       const survivedCount = clusterSurvived.reduce((acc, s) => acc + s, 0);
       survivalRates[cluster] = survivedCount / clusterSurvived.length;
     }
@@ -420,3 +741,20 @@ export const getClusterSurvivalRates = (
   
   return survivalRates;
 };
+
+// Count labelled (Survived known) passengers per cluster
+export const getClusterLabelledCounts = (
+  survived: (number | null)[] | undefined,
+  clusters: number[]
+): Record<number, number> => {
+  const counts: Record<number, number> = {};
+  
+  clusters.forEach((cluster, i) => {
+    if (!counts[cluster]) counts[cluster] = 0;
+    if (survived && survived[i] !== null && survived[i] !== undefined) {
+      counts[cluster]++;
+    }
+  });
+  
+  return counts;
+};
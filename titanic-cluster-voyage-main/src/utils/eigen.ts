@@ -0,0 +1,105 @@
+// Eigendecomposition of symmetric matrices such as covariance matrices, by cyclic Jacobi rotations.
+// The same matrix always gives the same eigenpairs, in the same order and with the same signs.
+
+export interface EigenResult {
+  eigenvalues: number[]; // largest first
+  eigenvectors: number[][]; // eigenvectors[k] belongs to eigenvalues[k], unit length
+  sweeps: number; // passes over every off-diagonal entry
+  converged: boolean;
+  residual: number; // largest ‖Av − λv‖ over the eigenpairs
+}
+
+export interface EigenOptions {
+  maxSweeps?: number;
+  tolerance?: number; // off-diagonal size, relative to the whole matrix, at which to stop
+  onSweep?: (sweep: number, offDiagonal: number) => void;
+}
+
+const DEFAULT_MAX_SWEEPS = 100;
+const DEFAULT_TOLERANCE = 1e-12;
+
+const frobenius = (matrix: number[][]) => Math.sqrt(matrix.reduce((sum, row) => sum + row.reduce((s, v) => s + v * v, 0), 0));
+
+const offDiagonalNorm = (matrix: number[][]) => {
+  let sum = 0;
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) sum += 2 * matrix[i][j] * matrix[i][j];
+  }
+  return Math.sqrt(sum);
+};
+
+// Flip each vector so its largest entry (the first of equals) is positive
+const orientVector = (vector: number[]) => {
+  let largest = 0;
+  vector.forEach((value, i) => {
+    if (Math.abs(value) > Math.abs(vector[largest]) + 1e-12) largest = i;
+  });
+  return vector[largest] < 0 ? vector.map(value => -value) : vector;
+};
+
+export const symmetricEigen = (matrix: number[][], options: EigenOptions = {}): EigenResult => {
+  const { maxSweeps = DEFAULT_MAX_SWEEPS, tolerance = DEFAULT_TOLERANCE, onSweep } = options;
+  const n = matrix.length;
+  if (n === 0) return { eigenvalues: [], eigenvectors: [], sweeps: 0, converged: true, residual: 0 };
+
+  const a = matrix.map(row => [...row]);
+  // Columns of v accumulate the rotations and end up as the eigenvectors
+  const v: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  const threshold = tolerance * (frobenius(a) || 1);
+
+  let sweeps = 0;
+  let converged = offDiagonalNorm(a) <= threshold;
+  while (!converged && sweeps < maxSweeps) {
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+
+        // Rotation angle that zeroes a[p][q] (Golub and Van Loan, algorithm 8.4.2)
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+    sweeps++;
+    const offDiagonal = offDiagonalNorm(a);
+    onSweep?.(sweeps, offDiagonal);
+    converged = offDiagonal <= threshold;
+  }
+
+  // Largest first; equal eigenvalues keep their original order
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i] || i - j);
+  const eigenvalues = order.map(i => a[i][i]);
+  const eigenvectors = order.map(i => orientVector(v.map(row => row[i])));
+
+  const residual = eigenvectors.reduce((worst, vector, k) => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      let product = 0;
+      for (let j = 0; j < n; j++) product += matrix[i][j] * vector[j];
+      sum += (product - eigenvalues[k] * vector[i]) ** 2;
+    }
+    return Math.max(worst, Math.sqrt(sum));
+  }, 0);
+
+  return { eigenvalues, eigenvectors, sweeps, converged, residual };
+};
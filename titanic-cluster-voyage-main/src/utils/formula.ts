@@ -0,0 +1,521 @@
+import { coerceFeatureTypes, TitanicPassenger } from './dataUtils';
+import { isMissing } from './values';
+
+// A small expression language for derived columns, e.g. `Fare / FamilySize`, `log(Fare + 1)`
+// or `Age < 16 and Sex == "male"`. Formulas are parsed into a tree and evaluated by walking it,
+// so they can only read the row's columns and call the functions listed here.
+
+export type FormulaType = 'number' | 'string' | 'boolean';
+
+export type FormulaValue = number | string | boolean | null;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: FormulaNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+// A column computed from a formula
+export interface DerivedColumn {
+  name: string;
+  formula: string;
+}
+
+// Tokens
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'name'; value: string; position: number; quoted: boolean }
+  | { kind: 'symbol'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const KEYWORDS = ['and', 'or', 'not', 'true', 'false'];
+
+// Longest first, so `<=` is not read as `<` followed by `=`
+const SYMBOLS = ['==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '^', '(', ')', ','];
+
+const MAX_DEPTH = 100;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) throw new Error(`Unexpected "${char}" at position ${i + 1}`);
+      tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    // Strings in double or single quotes; backticks quote column names with spaces or symbols
+    if (char === '"' || char === '\'' || char === '`') {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new Error(`Unclosed ${char} starting at position ${i + 1}`);
+      tokens.push(char === '`'
+        ? { kind: 'name', value, position: i, quoted: true }
+        : { kind: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const name = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+      tokens.push({ kind: 'name', value: name, position: i, quoted: false });
+      i += name.length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, i));
+    if (!symbol) {
+      throw new Error(char === '='
+        ? `Use == to compare values (position ${i + 1})`
+        : `Unexpected "${char}" at position ${i + 1}`);
+    }
+    tokens.push({ kind: 'symbol', value: symbol, position: i });
+    i += symbol.length;
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+};
+
+// Parser: recursive descent, lowest precedence first
+
+const BINARY_LEVELS: BinaryOperator[][] = [
+  ['or'],
+  ['and'],
+  ['==', '!=', '<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+export const parseFormula = (source: string): FormulaNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token) =>
+    token.kind === 'end' ? 'the end of the formula' : `"${'value' in token ? token.value : ''}" at position ${token.position + 1}`;
+
+  // Keywords are names that are not backtick-quoted
+  const isOperator = (token: Token, operator: string) =>
+    (token.kind === 'symbol' && token.value === operator) ||
+    (token.kind === 'name' && !token.quoted && token.value === operator);
+
+  const expect = (symbol: string) => {
+    const token = peek();
+    if (!isOperator(token, symbol)) throw new Error(`Expected "${symbol}" but found ${describe(token)}`);
+    index++;
+  };
+
+  const parseLevel = (level: number): FormulaNode => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+
+    let left = level === 2 && isOperator(peek(), 'not') ? parseNot() : parseLevel(level + 1);
+    let operator = BINARY_LEVELS[level].find(candidate => isOperator(peek(), candidate));
+    while (operator) {
+      index++;
+      const right = level === 2 && isOperator(peek(), 'not') ? parseNot() : parseLevel(level + 1);
+      left = { kind: 'binary', operator, left, right };
+      // Comparisons do not chain: `a < b < c` is almost always a mistake
+      if (level === 2) break;
+      operator = BINARY_LEVELS[level].find(candidate => isOperator(peek(), candidate));
+    }
+    return left;
+  };
+
+  // `not` binds looser than comparisons, so `not Age < 16` means `not (Age < 16)`
+  const parseNot = (): FormulaNode => nested(() => {
+    index++;
+    return { kind: 'unary', operator: 'not', operand: parseLevel(2) };
+  });
+
+  // Every nesting (brackets, calls, unary operators) passes through parseUnary or parseNot
+  const nested = (parse: () => FormulaNode): FormulaNode => {
+    if (++depth > MAX_DEPTH) throw new Error('The formula is nested too deeply');
+    try {
+      return parse();
+    } finally {
+      depth--;
+    }
+  };
+
+  const parseUnary = (): FormulaNode => nested(() => {
+    if (isOperator(peek(), '-')) {
+      index++;
+      return { kind: 'unary', operator: '-', operand: parseUnary() };
+    }
+    return parsePower();
+  });
+
+  // Right-associative, and tighter than unary minus: -2 ^ 2 is -(2 ^ 2)
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (isOperator(peek(), '^')) {
+      index++;
+      return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.kind === 'string') {
+      index++;
+      return { kind: 'string', value: token.value };
+    }
+    if (isOperator(token, '(')) {
+      index++;
+      const inner = parseLevel(0);
+      expect(')');
+      return inner;
+    }
+    if (token.kind === 'name') {
+      index++;
+      if (!token.quoted && (token.value === 'true' || token.value === 'false')) {
+        return { kind: 'boolean', value: token.value === 'true' };
+      }
+      if (!token.quoted && KEYWORDS.includes(token.value)) {
+        throw new Error(`Unexpected "${token.value}" at position ${token.position + 1}`);
+      }
+      if (!token.quoted && isOperator(peek(), '(')) {
+        index++;
+        const args: FormulaNode[] = [];
+        if (!isOperator(peek(), ')')) {
+          args.push(parseLevel(0));
+          while (isOperator(peek(), ',')) {
+            index++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: token.value, args };
+      }
+      return { kind: 'column', name: token.value };
+    }
+    throw new Error(token.kind === 'end' ? 'The formula ends too soon' : `Unexpected ${describe(token)}`);
+  };
+
+  if (peek().kind === 'end') throw new Error('The formula is empty');
+  const node = parseLevel(0);
+  if (peek().kind !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return node;
+};
+
+// Functions
+
+// 'same' means every argument, or the result, has the type of the first argument
+type ArgumentType = FormulaType | 'any';
+type Signature = { args: ArgumentType[] | 'same'; variadic?: boolean; returns: FormulaType | 'same' };
+
+interface FormulaFunction {
+  signature: Signature;
+  description: string;
+  // Called with the evaluated arguments; missing arguments are handled before unless handlesMissing is set
+  evaluate: (args: FormulaValue[]) => FormulaValue;
+  handlesMissing?: boolean;
+}
+
+const numberFunction = (description: string, fn: (x: number) => number): FormulaFunction => ({
+  signature: { args: ['number'], returns: 'number' },
+  description,
+  evaluate: ([x]) => fn(x as number)
+});
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  abs: numberFunction('Absolute value', Math.abs),
+  sqrt: numberFunction('Square root', Math.sqrt),
+  log: numberFunction('Natural logarithm', Math.log),
+  log1p: numberFunction('log(1 + x)', Math.log1p),
+  exp: numberFunction('e to the power of x', Math.exp),
+  round: numberFunction('Nearest whole number', Math.round),
+  floor: numberFunction('Round down', Math.floor),
+  ceil: numberFunction('Round up', Math.ceil),
+  min: {
+    signature: { args: ['number'], variadic: true, returns: 'number' },
+    description: 'Smallest of the values',
+    evaluate: args => Math.min(...(args as number[]))
+  },
+  max: {
+    signature: { args: ['number'], variadic: true, returns: 'number' },
+    description: 'Largest of the values',
+    evaluate: args => Math.max(...(args as number[]))
+  },
+  if: {
+    signature: { args: ['boolean', 'any', 'any'], returns: 'same' },
+    description: 'if(condition, then, otherwise)',
+    evaluate: ([condition, then, otherwise]) => (condition === null ? null : condition ? then : otherwise),
+    handlesMissing: true
+  },
+  isMissing: {
+    signature: { args: ['any'], returns: 'boolean' },
+    description: 'Whether the value is missing',
+    evaluate: ([x]) => x === null,
+    handlesMissing: true
+  },
+  coalesce: {
+    signature: { args: 'same', variadic: true, returns: 'same' },
+    description: 'The first value that is not missing',
+    evaluate: args => args.find(x => x !== null) ?? null,
+    handlesMissing: true
+  },
+  lower: {
+    signature: { args: ['string'], returns: 'string' },
+    description: 'Lower case',
+    evaluate: ([s]) => (s as string).toLowerCase()
+  },
+  upper: {
+    signature: { args: ['string'], returns: 'string' },
+    description: 'Upper case',
+    evaluate: ([s]) => (s as string).toUpperCase()
+  },
+  len: {
+    signature: { args: ['string'], returns: 'number' },
+    description: 'Number of characters',
+    evaluate: ([s]) => (s as string).length
+  },
+  contains: {
+    signature: { args: ['string', 'string'], returns: 'boolean' },
+    description: 'contains(text, part): whether part appears in text',
+    evaluate: ([s, part]) => (s as string).includes(part as string)
+  }
+};
+
+// Type checking
+
+// Types of the columns a formula may read
+export type FormulaColumnTypes = Record<string, FormulaType>;
+
+export const columnTypesFromFeatures = (
+  numericalFeatures: string[],
+  categoricalFeatures: string[]
+): FormulaColumnTypes => {
+  const types: FormulaColumnTypes = {};
+  numericalFeatures.forEach(column => { types[column] = 'number'; });
+  categoricalFeatures.forEach(column => { types[column] = 'string'; });
+  return types;
+};
+
+// Names are looked up as own properties only, so `constructor` or `toString` are not columns or functions
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+const ARITHMETIC = ['-', '*', '/', '%', '^'];
+const ORDERING = ['<', '<=', '>', '>='];
+
+// The type a formula produces; throws when it reads unknown columns or mixes types
+export const checkFormula = (node: FormulaNode, columns: FormulaColumnTypes): FormulaType => {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.kind;
+    case 'column': {
+      const type = hasOwn(columns, node.name) ? columns[node.name] : undefined;
+      if (!type) throw new Error(`Unknown column "${node.name}"`);
+      return type;
+    }
+    case 'unary': {
+      const type = checkFormula(node.operand, columns);
+      const expected = node.operator === '-' ? 'number' : 'boolean';
+      if (type !== expected) throw new Error(`"${node.operator}" needs a ${expected}, not a ${type}`);
+      return expected;
+    }
+    case 'binary': {
+      const left = checkFormula(node.left, columns);
+      const right = checkFormula(node.right, columns);
+      const { operator } = node;
+      if (operator === '+' && left === right && left !== 'boolean') return left;
+      if (ARITHMETIC.includes(operator) || operator === '+') {
+        if (left !== 'number' || right !== 'number') {
+          throw new Error(`"${operator}" needs numbers, not a ${left} and a ${right}`);
+        }
+        return 'number';
+      }
+      if (operator === 'and' || operator === 'or') {
+        if (left !== 'boolean' || right !== 'boolean') {
+          throw new Error(`"${operator}" needs true/false values, not a ${left} and a ${right}`);
+        }
+        return 'boolean';
+      }
+      if (left !== right || (ORDERING.includes(operator) && left === 'boolean')) {
+        throw new Error(`Cannot compare a ${left} with a ${right} using "${operator}"`);
+      }
+      return 'boolean';
+    }
+    case 'call': {
+      if (!hasOwn(FORMULA_FUNCTIONS, node.name)) throw new Error(`Unknown function "${node.name}"`);
+      const fn = FORMULA_FUNCTIONS[node.name];
+      const { signature } = fn;
+      const types = node.args.map(arg => checkFormula(arg, columns));
+
+      const fixed = signature.args === 'same' ? 1 : signature.args.length;
+      if (signature.variadic ? types.length < fixed : types.length !== fixed) {
+        throw new Error(`${node.name}() takes ${signature.variadic ? 'at least ' : ''}${fixed} argument${fixed === 1 ? '' : 's'}`);
+      }
+
+      if (signature.args === 'same') {
+        if (types.some(type => type !== types[0])) throw new Error(`${node.name}() needs arguments of the same type`);
+      } else {
+        types.forEach((type, i) => {
+          const expected = (signature.args as ArgumentType[])[Math.min(i, fixed - 1)];
+          if (expected !== 'any' && type !== expected) {
+            throw new Error(`Argument ${i + 1} of ${node.name}() must be a ${expected}, not a ${type}`);
+          }
+        });
+      }
+
+      if (node.name === 'if') {
+        if (types[1] !== types[2]) throw new Error('Both branches of if() must have the same type');
+        return types[1];
+      }
+      return signature.returns === 'same' ? types[0] : signature.returns;
+    }
+  }
+};
+
+// Columns a formula reads
+export const formulaColumns = (node: FormulaNode): string[] => {
+  switch (node.kind) {
+    case 'column':
+      return [node.name];
+    case 'unary':
+      return formulaColumns(node.operand);
+    case 'binary':
+      return [...new Set([...formulaColumns(node.left), ...formulaColumns(node.right)])];
+    case 'call':
+      return [...new Set(node.args.flatMap(formulaColumns))];
+    default:
+      return [];
+  }
+};
+
+// Evaluation
+
+// Results that are not finite numbers, such as log(0) or x / 0, count as missing
+const finite = (value: number): FormulaValue => (Number.isFinite(value) ? value : null);
+
+// Any missing operand makes the result missing, except where `and` or `or` is decided by the other side
+export const evaluateFormula = (node: FormulaNode, row: TitanicPassenger): FormulaValue => {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'column':
+      return !hasOwn(row, node.name) || isMissing(row[node.name]) ? null : row[node.name];
+    case 'unary': {
+      const value = evaluateFormula(node.operand, row);
+      if (value === null) return null;
+      return node.operator === '-' ? -(value as number) : !value;
+    }
+    case 'binary': {
+      const left = evaluateFormula(node.left, row);
+      if (node.operator === 'and' && left === false) return false;
+      if (node.operator === 'or' && left === true) return true;
+      const right = evaluateFormula(node.right, row);
+      if (node.operator === 'and') return right === false ? false : left === null || right === null ? null : true;
+      if (node.operator === 'or') return right === true ? true : left === null || right === null ? null : false;
+      if (left === null || right === null) return null;
+
+      switch (node.operator) {
+        case '+': return typeof left === 'string' ? left + right : finite((left as number) + (right as number));
+        case '-': return finite((left as number) - (right as number));
+        case '*': return finite((left as number) * (right as number));
+        case '/': return finite((left as number) / (right as number));
+        case '%': return finite((left as number) % (right as number));
+        case '^': return finite((left as number) ** (right as number));
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+      }
+      return null;
+    }
+    case 'call': {
+      if (!hasOwn(FORMULA_FUNCTIONS, node.name)) throw new Error(`Unknown function "${node.name}"`);
+      const fn = FORMULA_FUNCTIONS[node.name];
+      const args = node.args.map(arg => evaluateFormula(arg, row));
+      if (!fn.handlesMissing && args.some(arg => arg === null)) return null;
+      const value = fn.evaluate(args);
+      return typeof value === 'number' ? finite(value) : value;
+    }
+  }
+};
+
+export interface DerivedColumnCheck {
+  type?: FormulaType; // what the formula produces, when it is usable
+  problem?: string;
+}
+
+// Check derived columns in order against the dataset's columns; each one can read those before it
+export const checkDerivedColumns = (derived: DerivedColumn[], columns: FormulaColumnTypes): DerivedColumnCheck[] => {
+  const known = { ...columns };
+  return derived.map(({ name, formula }) => {
+    if (hasOwn(known, name)) return { problem: 'A column with this name already exists' };
+    try {
+      const type = checkFormula(parseFormula(formula), known);
+      known[name] = type === 'boolean' ? 'number' : type;
+      return { type };
+    } catch (error) {
+      return { problem: error instanceof Error ? error.message : 'Invalid formula' };
+    }
+  });
+};
+
+// Add derived columns in order, so later formulas can read earlier ones. Columns are read as
+// the given types, so a value that does not fit is missing. True/false results are stored as 1/0
+// so they can be used as numerical features.
+export const deriveColumns = (
+  data: TitanicPassenger[],
+  derived: DerivedColumn[],
+  columns: FormulaColumnTypes
+): TitanicPassenger[] => {
+  checkDerivedColumns(derived, columns).forEach(({ problem }, i) => {
+    if (problem) throw new Error(`${derived[i].name}: ${problem}`);
+  });
+  const compiled = derived.map(({ name, formula }) => ({ name, node: parseFormula(formula) }));
+
+  const read = [...new Set(compiled.flatMap(({ node }) => formulaColumns(node)))].filter(column => hasOwn(columns, column));
+  const typed = coerceFeatureTypes(
+    data,
+    read.filter(column => columns[column] === 'number'),
+    read.filter(column => columns[column] === 'string')
+  );
+
+  return typed.map(passenger => {
+    const row = { ...passenger };
+    compiled.forEach(({ name, node }) => {
+      const value = evaluateFormula(node, row);
+      row[name] = typeof value === 'boolean' ? (value ? 1 : 0) : value;
+    });
+    return row;
+  });
+};
@@ -0,0 +1,334 @@
+import type { TitanicPassenger } from './dataUtils';
+import { isMissing } from './values';
+
+// Strategies for filling missing values, chosen per column.
+// Only types are imported from dataUtils so that dataUtils can build on this module.
+
+export type ImputationMethod = 'mean' | 'median' | 'mode' | 'constant' | 'groupMedian' | 'knn';
+
+export interface ImputationStrategy {
+  method: ImputationMethod;
+  constant?: string | number; // for 'constant'
+  groupBy?: string[]; // for 'groupMedian', most important column first
+  k?: number; // for 'knn'
+}
+
+export type ImputationStrategies = Record<string, ImputationStrategy>;
+
+export const IMPUTATION_METHODS: Record<ImputationMethod, { label: string; numericalOnly: boolean }> = {
+  mean: { label: 'Mean', numericalOnly: true },
+  median: { label: 'Median', numericalOnly: true },
+  mode: { label: 'Most frequent', numericalOnly: false },
+  constant: { label: 'Constant', numericalOnly: false },
+  groupMedian: { label: 'Group median', numericalOnly: true },
+  knn: { label: 'k-nearest neighbours', numericalOnly: false }
+};
+
+export const DEFAULT_KNN_NEIGHBOURS = 5;
+
+// Age depends strongly on title and class, so it defaults to the median of passengers like them
+export const DEFAULT_IMPUTATION_STRATEGIES: ImputationStrategies = {
+  Age: { method: 'groupMedian', groupBy: ['Title', 'Pclass'] }
+};
+
+// One filled value and how often it was used; group names the rows it came from
+export interface ImputationFill {
+  value: string | number;
+  count: number;
+  group?: string;
+}
+
+export interface ColumnImputation {
+  column: string;
+  method: ImputationMethod; // the method actually used, after any fallback
+  filled: number;
+  fills: ImputationFill[]; // most frequent first, at most MAX_REPORTED_FILLS
+  distinctFills: number;
+}
+
+export type ImputationReport = ColumnImputation[];
+
+const MAX_REPORTED_FILLS = 12;
+
+// kNN compares every missing row with every donor, so large datasets use an evenly spaced sample of donors
+const MAX_KNN_DONORS = 2000;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Most frequent value; ties go to the value seen first
+const mode = <T>(values: T[], fallback: T): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  let best = fallback;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const constantFor = (strategy: ImputationStrategy, isNumerical: boolean): string | number => {
+  if (isNumerical) {
+    const value = Number(strategy.constant);
+    return strategy.constant !== '' && isFinite(value) ? value : 0;
+  }
+  return isMissing(strategy.constant) ? 'Unknown' : String(strategy.constant);
+};
+
+// The method to use for a column; numerical-only methods fall back to the mode for categorical columns
+export const resolveImputationMethod = (
+  strategy: ImputationStrategy | undefined,
+  isNumerical: boolean
+): ImputationMethod => {
+  const method = strategy?.method ?? (isNumerical ? 'median' : 'mode');
+  if (!IMPUTATION_METHODS[method]) return isNumerical ? 'median' : 'mode';
+  return IMPUTATION_METHODS[method].numericalOnly && !isNumerical ? 'mode' : method;
+};
+
+// Fitted parameters for one column, kept so new passengers can be filled in the same way
+export type FittedImputer =
+  | { method: 'mean' | 'median' | 'mode' | 'constant'; value: string | number }
+  | {
+    method: 'groupMedian';
+    levels: { columns: string[]; medians: Record<string, number> }[]; // most specific first
+    overall: number;
+  }
+  | {
+    method: 'knn';
+    k: number;
+    isNumerical: boolean;
+    numerical: string[]; // the other features used for distances
+    categorical: string[];
+    ranges: Record<string, number>;
+    donors: TitanicPassenger[]; // only the distance features and the column itself
+    fallback: string | number;
+  };
+
+const groupLabel = (columns: string[], row: TitanicPassenger) =>
+  columns.map(column => `${column} ${isMissing(row[column]) ? 'missing' : row[column]}`).join(', ');
+
+// Medians per group, dropping the least important group column at each level
+const fitGroupMedian = (data: TitanicPassenger[], column: string, groupBy: string[]): FittedImputer => {
+  const levels = groupBy.map((_, index) => {
+    const columns = groupBy.slice(0, groupBy.length - index);
+    const groups = new Map<string, number[]>();
+    data.forEach(row => {
+      if (isMissing(row[column])) return;
+      const key = groupLabel(columns, row);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(row[column]);
+    });
+    return { columns, medians: Object.fromEntries([...groups].map(([key, values]) => [key, median(values)])) };
+  });
+  const overall = median(data.map(row => row[column]).filter(value => !isMissing(value)));
+  return { method: 'groupMedian', levels, overall };
+};
+
+// kNN compares with a sample of donors: rows that have the column filled in
+const fitKnn = (
+  data: TitanicPassenger[],
+  column: string,
+  isNumerical: boolean,
+  k: number,
+  numericalFeatures: string[],
+  categoricalFeatures: string[]
+): FittedImputer => {
+  const numerical = numericalFeatures.filter(feature => feature !== column);
+  const categorical = categoricalFeatures.filter(feature => feature !== column);
+
+  const ranges: Record<string, number> = {};
+  numerical.forEach(feature => {
+    let min = Infinity;
+    let max = -Infinity;
+    data.forEach(row => {
+      const value = row[feature];
+      if (isMissing(value)) return;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    ranges[feature] = max > min ? max - min : 1;
+  });
+
+  const candidates = data.filter(row => !isMissing(row[column]));
+  const stride = Math.max(1, candidates.length / MAX_KNN_DONORS);
+  const sampled = stride === 1
+    ? candidates
+    : Array.from({ length: Math.floor(candidates.length / stride) }, (_, index) => candidates[Math.floor(index * stride)]);
+  const kept = [column, ...numerical, ...categorical];
+  const donors = sampled.map(row => Object.fromEntries(kept.map(feature => [feature, row[feature]])));
+
+  const fallback = isNumerical
+    ? median(candidates.map(row => row[column]))
+    : mode(candidates.map(row => row[column]), 'Unknown');
+
+  return { method: 'knn', k, isNumerical, numerical, categorical, ranges, donors, fallback };
+};
+
+// Fit the imputer for one column; rows are expected to be coerced to their feature types
+export const fitImputer = (
+  data: TitanicPassenger[],
+  column: string,
+  isNumerical: boolean,
+  strategy: ImputationStrategy | undefined,
+  numericalFeatures: string[],
+  categoricalFeatures: string[]
+): FittedImputer => {
+  const method = resolveImputationMethod(strategy, isNumerical);
+  const observed = data.map(row => row[column]).filter(value => !isMissing(value));
+
+  if (method === 'groupMedian' && strategy?.groupBy?.length) {
+    return fitGroupMedian(data, column, strategy.groupBy);
+  }
+  if (method === 'knn') {
+    const k = Math.max(1, Math.round(strategy?.k ?? DEFAULT_KNN_NEIGHBOURS));
+    return fitKnn(data, column, isNumerical, k, numericalFeatures, categoricalFeatures);
+  }
+  if (method === 'constant') {
+    return { method, value: constantFor(strategy ?? { method }, isNumerical) };
+  }
+  if (method === 'mean') {
+    return { method, value: mean(observed) };
+  }
+  if (method === 'median' || method === 'groupMedian') {
+    return { method: 'median', value: median(observed) };
+  }
+  return { method: 'mode', value: mode(observed, isNumerical ? 0 : '') };
+};
+
+// Average (or most frequent) value of the k most similar donors.
+// Similarity is a Gower distance over the other feature columns both rows have values for.
+const applyKnn = (imputer: Extract<FittedImputer, { method: 'knn' }>, column: string, row: TitanicPassenger) => {
+  const { k, numerical, categorical, ranges, donors } = imputer;
+  if (donors.length === 0) return imputer.fallback;
+
+  const distance = (donor: TitanicPassenger) => {
+    let total = 0;
+    let compared = 0;
+    numerical.forEach(feature => {
+      if (isMissing(row[feature]) || isMissing(donor[feature])) return;
+      total += Math.abs(row[feature] - donor[feature]) / ranges[feature];
+      compared++;
+    });
+    categorical.forEach(feature => {
+      if (isMissing(row[feature]) || isMissing(donor[feature])) return;
+      total += row[feature] === donor[feature] ? 0 : 1;
+      compared++;
+    });
+    return compared === 0 ? 1 : total / compared;
+  };
+
+  // Keep the k closest donors, sorted by distance
+  const nearest: { distance: number; value: string | number }[] = [];
+  donors.forEach(donor => {
+    const d = distance(donor);
+    if (nearest.length === k && d >= nearest[k - 1].distance) return;
+    let index = nearest.length;
+    while (index > 0 && nearest[index - 1].distance > d) index--;
+    nearest.splice(index, 0, { distance: d, value: donor[column] });
+    if (nearest.length > k) nearest.pop();
+  });
+
+  const values = nearest.map(neighbour => neighbour.value);
+  return imputer.isNumerical ? mean(values as number[]) : mode(values, imputer.fallback);
+};
+
+// The value for one missing cell, and the group it was taken from where that applies
+export const applyImputer = (
+  imputer: FittedImputer,
+  column: string,
+  row: TitanicPassenger
+): { value: string | number; group?: string } => {
+  if (imputer.method === 'groupMedian') {
+    for (const level of imputer.levels) {
+      const key = groupLabel(level.columns, row);
+      if (key in level.medians) return { value: level.medians[key], group: key };
+    }
+    return { value: imputer.overall, group: 'all passengers' };
+  }
+  if (imputer.method === 'knn') {
+    return { value: applyKnn(imputer, column, row) };
+  }
+  return { value: imputer.value };
+};
+
+// Fit an imputer for every feature column, so later rows can be filled even where training rows had no gaps
+export const fitImputers = (
+  data: TitanicPassenger[],
+  numericalFeatures: string[],
+  categoricalFeatures: string[],
+  strategies: ImputationStrategies = {}
+): Record<string, FittedImputer> => {
+  const imputers: Record<string, FittedImputer> = {};
+  numericalFeatures.forEach(column => {
+    imputers[column] = fitImputer(data, column, true, strategies[column], numericalFeatures, categoricalFeatures);
+  });
+  categoricalFeatures.forEach(column => {
+    imputers[column] = fitImputer(data, column, false, strategies[column], numericalFeatures, categoricalFeatures);
+  });
+  return imputers;
+};
+
+// Fill every missing value the imputers cover and report what was filled in
+export const applyImputers = (
+  data: TitanicPassenger[],
+  imputers: Record<string, FittedImputer>
+): { rows: TitanicPassenger[]; report: ImputationReport } => {
+  const rows = data.map(row => ({ ...row }));
+  const report: ImputationReport = [];
+
+  Object.entries(imputers).forEach(([column, imputer]) => {
+    // Distances and groups use the values as they were before any column was filled
+    const missingRows = rows
+      .map((row, index) => ({ row, original: data[index] }))
+      .filter(({ row }) => isMissing(row[column]));
+    if (missingRows.length === 0) return;
+
+    const fills = new Map<string, ImputationFill>();
+    missingRows.forEach(({ row, original }) => {
+      const { value, group } = applyImputer(imputer, column, original);
+      row[column] = value;
+
+      const key = `${group ?? ''}\u0000${value}`;
+      const existing = fills.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        fills.set(key, { value, count: 1, group });
+      }
+    });
+
+    const sortedFills = [...fills.values()].sort((a, b) => b.count - a.count);
+    report.push({
+      column,
+      method: imputer.method,
+      filled: missingRows.length,
+      fills: sortedFills.slice(0, MAX_REPORTED_FILLS),
+      distinctFills: sortedFills.length
+    });
+  });
+
+  return { rows, report };
+};
+
+// Fill the missing values of each feature column with its strategy (median or mode when none is set).
+// Rows are expected to be coerced to their feature types already.
+export const imputeColumns = (
+  data: TitanicPassenger[],
+  numericalFeatures: string[],
+  categoricalFeatures: string[],
+  strategies: ImputationStrategies = {}
+): { rows: TitanicPassenger[]; report: ImputationReport } => {
+  return applyImputers(data, fitImputers(data, numericalFeatures, categoricalFeatures, strategies));
+};
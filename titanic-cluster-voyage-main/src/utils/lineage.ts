@@ -0,0 +1,70 @@
+import type { TitanicPassenger } from './dataUtils';
+import type { PipelineStepId } from './pipeline';
+import { isMissing } from './values';
+
+// Cell-level lineage: which preprocessing step changed which value, so imputed,
+// clipped or converted values can be told apart from the ones in the file.
+
+// A value a step changed in a column that was already there; added columns are not changes
+export interface CellChange {
+  row: number; // 0-based row index
+  column: string;
+  step: PipelineStepId;
+  before: unknown;
+  after: unknown;
+}
+
+// Missing values of any kind are the same, as are a number and its text
+const sameValue = (a: unknown, b: unknown) => (isMissing(a) ? isMissing(b) : !isMissing(b) && String(a) === String(b));
+
+// Values a step changed, comparing its input and output rows, which keep their order
+export const cellChanges = (
+  step: PipelineStepId,
+  before: TitanicPassenger[],
+  after: TitanicPassenger[]
+): CellChange[] => {
+  const changes: CellChange[] = [];
+  before.forEach((row, i) => {
+    const next = after[i];
+    if (!next || next === row) return;
+    Object.keys(row).forEach(column => {
+      if (column in next && !sameValue(row[column], next[column])) {
+        changes.push({ row: i, column, step, before: row[column], after: next[column] });
+      }
+    });
+  });
+  return changes;
+};
+
+// Key of a cell in the lookup built by lineageByCell
+export const cellKey = (row: number, column: string) => `${row}:${column}`;
+
+// Every change to each cell, in the order the steps ran
+export const lineageByCell = (changes: CellChange[]): Map<string, CellChange[]> => {
+  const cells = new Map<string, CellChange[]>();
+  changes.forEach(change => {
+    const key = cellKey(change.row, change.column);
+    cells.set(key, [...(cells.get(key) ?? []), change]);
+  });
+  return cells;
+};
+
+const csvValue = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per change; rows are numbered from 1 as in the data tables
+export const lineageToCSV = (changes: CellChange[], stepLabels: Record<string, string> = {}): string => {
+  const lines = [
+    ['Row', 'Column', 'Step', 'Before', 'After'].join(','),
+    ...changes.map(change => [
+      change.row + 1,
+      change.column,
+      stepLabels[change.step] ?? change.step,
+      change.before,
+      change.after
+    ].map(csvValue).join(','))
+  ];
+  return lines.join('\n');
+};
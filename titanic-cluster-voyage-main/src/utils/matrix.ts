@@ -0,0 +1,31 @@
+// Small dense matrix helpers shared by the covariance-based analyses
+
+// Gauss–Jordan inverse with partial pivoting; a tiny ridge keeps constant, duplicated or collinear
+// columns invertible
+export const invert = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [
+    ...row.map((value, j) => (i === j ? value + 1e-9 : value)),
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const divisor = augmented[col][col] || 1e-12;
+    for (let j = 0; j < 2 * n; j++) augmented[col][j] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) augmented[row][j] -= factor * augmented[col][j];
+    }
+  }
+
+  return augmented.map(row => row.slice(n));
+};
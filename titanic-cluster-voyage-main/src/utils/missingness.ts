@@ -0,0 +1,327 @@
+import { inferColumnTypes, ProgressCallback, TitanicPassenger } from './dataUtils';
+import { invert } from './matrix';
+import { isMissing, toNumber } from './values';
+
+// Where values are missing and whether that depends on anything observed:
+// which rows lack which columns, which columns go missing together, how the share missing
+// varies across groups such as Pclass, and Little's test of missing completely at random (MCAR).
+
+export interface MissingnessPattern {
+  missing: string[]; // columns missing in these rows
+  count: number;
+}
+
+export interface GroupMissingness {
+  column: string; // the column with gaps
+  groupBy: string;
+  groups: { value: string; rows: number; missing: number }[];
+  chiSquare: number; // independence of missingness and group
+  df: number;
+  pValue: number;
+}
+
+export interface LittleMCARTest {
+  columns: string[]; // numerical columns in the test
+  chiSquare: number;
+  df: number;
+  pValue: number;
+  patterns: number;
+  rows: number; // rows with at least one of the columns observed
+  iterations: number; // EM iterations to estimate the mean and covariance
+}
+
+export interface MissingnessAnalysis {
+  rows: number;
+  columns: string[]; // columns with at least one missing value, most missing first
+  missingCounts: Record<string, number>;
+  matrix: { row: number; missing: boolean[] }[]; // evenly spaced rows, missing flags in column order
+  patterns: MissingnessPattern[]; // most common first
+  coMissing: number[][]; // rows missing both; the diagonal holds each column's count
+  byGroup: GroupMissingness[];
+  mcar: LittleMCARTest | null; // null when fewer than two numerical columns can be tested
+}
+
+// Rows drawn in the matrix plot
+const MAX_MATRIX_ROWS = 400;
+// Columns with a handful of values make groups, e.g. Pclass, Sex or Embarked
+const MAX_GROUP_VALUES = 10;
+// Identifiers carry no information about why a value is missing
+const ID_COLUMNS = ['PassengerId'];
+
+const EM_MAX_ITERATIONS = 200;
+const EM_TOLERANCE = 1e-6;
+
+// log Γ(x) (Lanczos approximation)
+const logGamma = (x: number): number => {
+  const coefficients = [
+    76.1800917294715, -86.5053203294168, 24.0140982408309,
+    -1.23173957245015, 0.120865097386618e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach(c => {
+    series += c / ++y;
+  });
+  return -tmp + Math.log((Math.sqrt(2 * Math.PI) * series) / x);
+};
+
+// Regularised upper incomplete gamma Q(a, x), by series below a + 1 and continued fraction above
+const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return Math.max(0, 1 - sum * front);
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.min(1, front * h);
+};
+
+// Probability of a chi-square value at least this large
+export const chiSquarePValue = (chiSquare: number, df: number): number => {
+  if (df <= 0) return 1;
+  return upperGamma(df / 2, chiSquare / 2);
+};
+
+const pick = (matrix: number[][], rows: number[], columns: number[]) => rows.map(i => columns.map(j => matrix[i][j]));
+
+const multiply = (matrix: number[][], vector: number[]) =>
+  matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+
+// Rows grouped by which columns they have, with the observed and missing positions
+const groupPatterns = (values: (number | null)[][]) => {
+  const groups = new Map<string, { observed: number[]; missing: number[]; rows: number[] }>();
+  values.forEach((row, i) => {
+    const key = row.map(value => (value === null ? '0' : '1')).join('');
+    if (!groups.has(key)) {
+      groups.set(key, {
+        observed: row.flatMap((value, j) => (value === null ? [] : [j])),
+        missing: row.flatMap((value, j) => (value === null ? [j] : [])),
+        rows: []
+      });
+    }
+    groups.get(key)!.rows.push(i);
+  });
+  return [...groups.values()];
+};
+
+// Maximum likelihood mean and covariance of a multivariate normal with gaps, by EM
+const estimateMoments = (values: (number | null)[][], p: number) => {
+  const n = values.length;
+  const patterns = groupPatterns(values);
+
+  let mean = Array.from({ length: p }, (_, j) => {
+    const observed = values.map(row => row[j]).filter((value): value is number => value !== null);
+    return observed.reduce((sum, value) => sum + value, 0) / observed.length;
+  });
+  let covariance = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) => {
+    if (i !== j) return 0;
+    const observed = values.map(row => row[j]).filter((value): value is number => value !== null);
+    return observed.reduce((sum, value) => sum + (value - mean[j]) ** 2, 0) / observed.length || 1;
+  }));
+
+  let iterations = 0;
+  for (; iterations < EM_MAX_ITERATIONS; iterations++) {
+    const sums = new Array<number>(p).fill(0);
+    const products = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+
+    patterns.forEach(({ observed, missing, rows }) => {
+      // Regression of the missing columns on the observed ones, shared by every row of the pattern
+      const inverse = missing.length > 0 && observed.length > 0 ? invert(pick(covariance, observed, observed)) : [];
+      const weights = pick(covariance, missing, observed).map(row => multiply(inverse, row));
+      const conditional = missing.map((i, a) => missing.map((j) =>
+        covariance[i][j] - observed.reduce((sum, k, b) => sum + weights[a][b] * covariance[k][j], 0)
+      ));
+
+      rows.forEach(r => {
+        const filled = values[r].map(value => value ?? 0);
+        missing.forEach((i, a) => {
+          filled[i] = mean[i] + observed.reduce((sum, k, b) => sum + weights[a][b] * (filled[k] - mean[k]), 0);
+        });
+        for (let i = 0; i < p; i++) {
+          sums[i] += filled[i];
+          for (let j = 0; j < p; j++) products[i][j] += filled[i] * filled[j];
+        }
+        missing.forEach((i, a) => missing.forEach((j, b) => {
+          products[i][j] += conditional[a][b];
+        }));
+      });
+    });
+
+    const nextMean = sums.map(sum => sum / n);
+    const nextCovariance = products.map((row, i) => row.map((value, j) => value / n - nextMean[i] * nextMean[j]));
+    const change = Math.max(
+      ...nextMean.map((value, i) => Math.abs(value - mean[i])),
+      ...nextCovariance.flatMap((row, i) => row.map((value, j) => Math.abs(value - covariance[i][j])))
+    );
+    mean = nextMean;
+    covariance = nextCovariance;
+    if (change < EM_TOLERANCE) {
+      iterations++;
+      break;
+    }
+  }
+
+  return { mean, covariance, patterns, iterations };
+};
+
+// Little (1988): compares each pattern's observed means with the overall estimates.
+// A small p-value means the gaps depend on the data, so they are not missing completely at random.
+export const littleMCARTest = (data: TitanicPassenger[], columns: string[]): LittleMCARTest | null => {
+  // Standardise so Fare and Age are on similar scales; the statistic does not change
+  const raw = data.map(row => columns.map(column => toNumber(row[column])));
+  const usable = columns.filter((_, j) => {
+    const observed = raw.map(row => row[j]).filter((value): value is number => value !== null);
+    return observed.length > 1 && new Set(observed).size > 1;
+  });
+  if (usable.length < 2) return null;
+
+  const indices = usable.map(column => columns.indexOf(column));
+  const scales = indices.map(j => {
+    const observed = raw.map(row => row[j]).filter((value): value is number => value !== null);
+    const mean = observed.reduce((sum, value) => sum + value, 0) / observed.length;
+    const sd = Math.sqrt(observed.reduce((sum, value) => sum + (value - mean) ** 2, 0) / observed.length);
+    return { mean, sd };
+  });
+  const values = raw
+    .map(row => indices.map((j, k) => (row[j] === null ? null : (row[j]! - scales[k].mean) / scales[k].sd)))
+    .filter(row => row.some(value => value !== null));
+
+  const p = usable.length;
+  const { mean, covariance, patterns, iterations } = estimateMoments(values, p);
+
+  let chiSquare = 0;
+  let df = -p;
+  patterns.forEach(({ observed, rows }) => {
+    if (observed.length === 0) return;
+    const difference = observed.map(j => rows.reduce((sum, r) => sum + values[r][j]!, 0) / rows.length - mean[j]);
+    const weighted = multiply(invert(pick(covariance, observed, observed)), difference);
+    chiSquare += rows.length * difference.reduce((sum, value, k) => sum + value * weighted[k], 0);
+    df += observed.length;
+  });
+
+  return {
+    columns: usable,
+    chiSquare,
+    df,
+    pValue: chiSquarePValue(chiSquare, df),
+    patterns: patterns.length,
+    rows: values.length,
+    iterations
+  };
+};
+
+// Whether each column's gaps are spread evenly across the values of a grouping column
+const missingnessByGroup = (
+  data: TitanicPassenger[],
+  column: string,
+  groupBy: string
+): GroupMissingness | null => {
+  const counts = new Map<string, { rows: number; missing: number }>();
+  data.forEach(row => {
+    if (isMissing(row[groupBy])) return;
+    const key = String(row[groupBy]);
+    const entry = counts.get(key) ?? { rows: 0, missing: 0 };
+    entry.rows++;
+    if (isMissing(row[column])) entry.missing++;
+    counts.set(key, entry);
+  });
+  if (counts.size < 2) return null;
+
+  const groups = [...counts.entries()]
+    .map(([value, entry]) => ({ value, ...entry }))
+    .sort((a, b) => a.value.localeCompare(b.value, undefined, { numeric: true }));
+  const total = groups.reduce((sum, group) => sum + group.rows, 0);
+  const missingTotal = groups.reduce((sum, group) => sum + group.missing, 0);
+
+  let chiSquare = 0;
+  groups.forEach(group => {
+    const expectedMissing = (group.rows * missingTotal) / total;
+    const expectedPresent = group.rows - expectedMissing;
+    if (expectedMissing > 0) chiSquare += (group.missing - expectedMissing) ** 2 / expectedMissing;
+    if (expectedPresent > 0) chiSquare += (group.rows - group.missing - expectedPresent) ** 2 / expectedPresent;
+  });
+  const df = groups.length - 1;
+  return { column, groupBy, groups, chiSquare, df, pValue: chiSquarePValue(chiSquare, df) };
+};
+
+export const analyseMissingness = (data: TitanicPassenger[], onProgress?: ProgressCallback): MissingnessAnalysis => {
+  onProgress?.(0, 'Counting missing values...');
+  const inferences = inferColumnTypes(data);
+  const allColumns = Object.keys(inferences);
+
+  const missingCounts: Record<string, number> = {};
+  allColumns.forEach(column => {
+    missingCounts[column] = data.filter(row => isMissing(row[column])).length;
+  });
+  const columns = allColumns
+    .filter(column => missingCounts[column] > 0)
+    .sort((a, b) => missingCounts[b] - missingCounts[a]);
+
+  const flags = data.map(row => columns.map(column => isMissing(row[column])));
+
+  const step = Math.max(1, data.length / MAX_MATRIX_ROWS);
+  const matrix = Array.from({ length: Math.min(data.length, MAX_MATRIX_ROWS) }, (_, i) => {
+    const row = Math.floor(i * step);
+    return { row, missing: flags[row] };
+  });
+
+  const patternCounts = new Map<string, MissingnessPattern>();
+  flags.forEach(rowFlags => {
+    const key = rowFlags.map(flag => (flag ? '1' : '0')).join('');
+    const pattern = patternCounts.get(key) ?? { missing: columns.filter((_, j) => rowFlags[j]), count: 0 };
+    pattern.count++;
+    patternCounts.set(key, pattern);
+  });
+  const patterns = [...patternCounts.values()].sort((a, b) => b.count - a.count);
+
+  const coMissing = columns.map((_, i) => columns.map((_, j) => flags.filter(rowFlags => rowFlags[i] && rowFlags[j]).length));
+
+  onProgress?.(0.3, 'Comparing groups...');
+  const groupColumns = allColumns.filter(column => {
+    if (ID_COLUMNS.includes(column)) return false;
+    const distinct = new Set<string>();
+    for (const row of data) {
+      if (isMissing(row[column])) continue;
+      distinct.add(String(row[column]));
+      if (distinct.size > MAX_GROUP_VALUES) return false;
+    }
+    return distinct.size > 1;
+  });
+  const byGroup = columns.flatMap(column => groupColumns
+    .filter(groupBy => groupBy !== column)
+    .map(groupBy => missingnessByGroup(data, column, groupBy))
+    .filter((result): result is GroupMissingness => result !== null));
+
+  onProgress?.(0.6, 'Little\'s MCAR test...');
+  const numerical = allColumns.filter(column => inferences[column].type === 'numerical' && !ID_COLUMNS.includes(column));
+  const mcar = columns.length > 0 ? littleMCARTest(data, numerical) : null;
+  onProgress?.(1, 'Missingness analysis complete');
+
+  return { rows: data.length, columns, missingCounts, matrix, patterns, coMissing, byGroup, mcar };
+};
@@ -0,0 +1,201 @@
+import type { TitanicPassenger } from './dataUtils';
+import { invert } from './matrix';
+import { quantile } from './values';
+
+// Outlier detection on numerical columns, with three ways to treat what is found:
+// flag it as a feature, clip it to the detection limit, or leave it out when later steps are fitted.
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'mahalanobis';
+
+export type OutlierTreatment = 'flag' | 'clip' | 'exclude';
+
+export const OUTLIER_METHODS: Record<OutlierMethod, { label: string; description: string }> = {
+  iqr: {
+    label: 'IQR fences',
+    description: 'Values more than the multiplier times the interquartile range below Q1 or above Q3'
+  },
+  zscore: {
+    label: 'Z-score',
+    description: 'Values more than the threshold in standard deviations from the column mean'
+  },
+  mahalanobis: {
+    label: 'Mahalanobis distance',
+    description: 'Passengers whose combination of values is unusual given how the columns vary together'
+  }
+};
+
+export const OUTLIER_TREATMENTS: Record<OutlierTreatment, { label: string; description: string }> = {
+  flag: { label: 'Flag', description: 'Add a 0/1 Outlier feature and keep the values' },
+  clip: { label: 'Clip', description: 'Pull values back to the detection limit (winsorize)' },
+  exclude: {
+    label: 'Exclude from fitting',
+    description: 'Keep the passengers but fit later steps and K-means on the others; they are then assigned to the nearest cluster'
+  }
+};
+
+export interface OutlierConfig {
+  method: OutlierMethod;
+  treatment: OutlierTreatment;
+  columns: string[]; // numerical columns to check
+  iqrMultiplier: number;
+  zThreshold: number;
+  mahalanobisAlpha: number; // share of well-behaved passengers expected beyond the limit
+}
+
+// Far-out fences (3 × IQR) rather than Tukey's 1.5, which would flag one fare in eight
+export const DEFAULT_OUTLIER_CONFIG: OutlierConfig = {
+  method: 'iqr',
+  treatment: 'flag',
+  columns: ['Fare', 'FamilySize'],
+  iqrMultiplier: 3,
+  zThreshold: 3,
+  mahalanobisAlpha: 0.001
+};
+
+// 0/1 column added by the flag treatment
+export const OUTLIER_COLUMN = 'Outlier';
+
+// Limits learned from the fitting rows
+export type FittedOutlierDetector =
+  | { method: 'iqr' | 'zscore'; columns: string[]; fences: Record<string, { lower: number; upper: number }> }
+  | { method: 'mahalanobis'; columns: string[]; mean: number[]; inverse: number[][]; threshold: number };
+
+export interface OutlierRow {
+  row: number; // 0-based row index
+  columns: string[]; // columns outside their fences; every checked column for Mahalanobis distance
+  values: Record<string, number>;
+  clipped?: Record<string, number>; // values after clipping
+  distance?: number; // Mahalanobis distance
+}
+
+export interface OutlierReport {
+  method: OutlierMethod;
+  treatment: OutlierTreatment;
+  columns: string[];
+  rows: OutlierRow[];
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+// Upper-tail standard normal quantile (Abramowitz and Stegun 26.2.23, error below 4.5e-4)
+const normalQuantile = (p: number) => {
+  const t = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)));
+  const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t ** 3);
+  return p < 0.5 ? z : -z;
+};
+
+// Chi-square value exceeded with probability alpha (Wilson–Hilferty approximation)
+const chiSquareQuantile = (degrees: number, alpha: number) => {
+  const a = 2 / (9 * degrees);
+  return degrees * (1 - a + normalQuantile(alpha) * Math.sqrt(a)) ** 3;
+};
+
+const squaredDistance = (point: number[], centre: number[], inverse: number[][]) => {
+  const diff = point.map((value, j) => value - centre[j]);
+  return diff.reduce((sum, di, i) => sum + di * diff.reduce((inner, dj, j) => inner + inverse[i][j] * dj, 0), 0);
+};
+
+// Learn the detection limits from the rows; missing values are left out
+export const fitOutlierDetector = (
+  data: TitanicPassenger[],
+  columns: string[],
+  config: OutlierConfig = DEFAULT_OUTLIER_CONFIG
+): FittedOutlierDetector => {
+  if (config.method === 'mahalanobis') {
+    const complete = data
+      .map(row => columns.map(column => row[column]))
+      .filter(values => values.every(isNumber)) as number[][];
+    const centre = columns.map((_, j) => mean(complete.map(values => values[j])));
+    const covariance = columns.map((_, i) => columns.map((_, j) =>
+      complete.reduce((sum, values) => sum + (values[i] - centre[i]) * (values[j] - centre[j]), 0) /
+        Math.max(complete.length - 1, 1)
+    ));
+    return {
+      method: 'mahalanobis',
+      columns,
+      mean: centre,
+      inverse: invert(covariance),
+      threshold: columns.length > 0 ? chiSquareQuantile(columns.length, config.mahalanobisAlpha) : Infinity
+    };
+  }
+
+  const fences: Record<string, { lower: number; upper: number }> = {};
+  columns.forEach(column => {
+    const values = data.map(row => row[column]).filter(isNumber);
+    if (config.method === 'iqr') {
+      const sorted = [...values].sort((a, b) => a - b);
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const reach = (q3 - q1) * config.iqrMultiplier;
+      fences[column] = { lower: q1 - reach, upper: q3 + reach };
+    } else {
+      const m = mean(values);
+      const sd = Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length || 1));
+      fences[column] = { lower: m - config.zThreshold * sd, upper: m + config.zThreshold * sd };
+    }
+  });
+  return { method: config.method, columns, fences };
+};
+
+// Find outliers with fitted limits and treat them. Exclusion leaves the rows as they are;
+// the caller uses the report to leave them out of fitting.
+export const applyOutlierDetector = (
+  data: TitanicPassenger[],
+  detector: FittedOutlierDetector,
+  treatment: OutlierTreatment
+): { rows: TitanicPassenger[]; report: OutlierReport } => {
+  const affected: OutlierRow[] = [];
+
+  const rows = data.map((passenger, i) => {
+    let outlier: OutlierRow | null = null;
+    const treated = { ...passenger };
+
+    if (detector.method === 'mahalanobis') {
+      const values = detector.columns.map(column => passenger[column]);
+      if (detector.columns.length > 0 && values.every(isNumber)) {
+        const distance2 = squaredDistance(values as number[], detector.mean, detector.inverse);
+        if (distance2 > detector.threshold) {
+          outlier = {
+            row: i,
+            columns: detector.columns,
+            values: Object.fromEntries(detector.columns.map((column, j) => [column, values[j]])),
+            distance: Math.sqrt(distance2)
+          };
+          if (treatment === 'clip') {
+            // Pull the passenger towards the mean until it sits on the limit
+            const shrink = Math.sqrt(detector.threshold / distance2);
+            outlier.clipped = {};
+            detector.columns.forEach((column, j) => {
+              treated[column] = detector.mean[j] + ((values[j] as number) - detector.mean[j]) * shrink;
+              outlier!.clipped![column] = treated[column];
+            });
+          }
+        }
+      }
+    } else {
+      detector.columns.forEach(column => {
+        const value = passenger[column];
+        const fence = detector.fences[column];
+        if (!fence || !isNumber(value) || (value >= fence.lower && value <= fence.upper)) return;
+        outlier = outlier ?? { row: i, columns: [], values: {} };
+        outlier.columns.push(column);
+        outlier.values[column] = value;
+        if (treatment === 'clip') {
+          treated[column] = Math.min(Math.max(value, fence.lower), fence.upper);
+          outlier.clipped = { ...outlier.clipped, [column]: treated[column] };
+        }
+      });
+    }
+
+    if (treatment === 'flag') treated[OUTLIER_COLUMN] = outlier ? 1 : 0;
+    if (outlier) affected.push(outlier);
+    return treated;
+  });
+
+  return {
+    rows,
+    report: { method: detector.method, treatment, columns: detector.columns, rows: affected }
+  };
+};
@@ -0,0 +1,829 @@
+import {
+  addMissingIndicators,
+  coerceFeatureTypes,
+  countTickets,
+  DEFAULT_ENGINEERED_FEATURES,
+  ENGINEERED_FEATURES,
+  EngineeredFeatureId,
+  engineerFeatures,
+  EXCLUDED_FEATURES,
+  FeatureTypeOverrides,
+  identifyFeatureTypes,
+  missingIndicatorName,
+  oneHotEncodeCategorical,
+  ProcessedData,
+  ProgressCallback,
+  separateFeatures,
+  TitanicPassenger
+} from './dataUtils';
+import {
+  columnTypesFromFeatures,
+  DerivedColumn,
+  deriveColumns,
+  FormulaColumnTypes,
+  formulaColumns,
+  parseFormula
+} from './formula';
+import {
+  applyImputers,
+  DEFAULT_IMPUTATION_STRATEGIES,
+  fitImputers,
+  FittedImputer,
+  IMPUTATION_METHODS,
+  ImputationReport,
+  ImputationStrategies
+} from './imputation';
+import { CellChange, cellChanges } from './lineage';
+import {
+  applyOutlierDetector,
+  DEFAULT_OUTLIER_CONFIG,
+  fitOutlierDetector,
+  FittedOutlierDetector,
+  OUTLIER_METHODS,
+  OUTLIER_TREATMENTS,
+  OutlierConfig,
+  OutlierReport,
+  OutlierTreatment
+} from './outliers';
+import {
+  applyScalers,
+  DEFAULT_SCALING_CONFIG,
+  fitScalers,
+  FittedScaler,
+  SCALER_METHODS,
+  ScalingConfig
+} from './scaling';
+import { isMissing } from './values';
+
+// Preprocessing as a configurable chain of steps. The configuration is plain JSON,
+// so it can be exported, imported and stored with results to reproduce a run exactly.
+
+export const PIPELINE_CONFIG_VERSION = 1;
+
+// Row steps work on passenger objects, encoding turns them into a matrix, matrix steps work on numbers
+export type PipelineStage = 'rows' | 'encode' | 'matrix';
+
+export type PipelineStepId =
+  | 'engineerFeatures'
+  | 'deriveColumns'
+  | 'missingIndicators'
+  | 'imputeMissing'
+  | 'treatOutliers'
+  | 'encodeCategorical'
+  | 'standardize';
+
+export interface PipelineStepConfig {
+  id: PipelineStepId;
+  enabled: boolean;
+}
+
+export interface PipelineConfig {
+  version: number;
+  steps: PipelineStepConfig[]; // in run order
+  excludedColumns: string[]; // columns kept out of the feature matrix
+  typeOverrides: FeatureTypeOverrides;
+  engineeredFeatures: EngineeredFeatureId[]; // added by the feature engineering step
+  derivedColumns: DerivedColumn[]; // formula columns, in the order they are computed
+  imputation: ImputationStrategies; // per column; others use the median or mode
+  missingIndicators: string[]; // columns that get a <column>_missing feature
+  outliers: OutlierConfig;
+  scaling: ScalingConfig;
+}
+
+// What each step hands to the next
+export interface PipelineState {
+  rows: TitanicPassenger[];
+  matrix: number[][] | null;
+  features: string[];
+  blocks: string[]; // the feature each matrix column came from
+  numericalFeatures: string[];
+  categoricalFeatures: string[];
+  imputation?: ImputationReport;
+  derived?: Record<string, (number | string | null)[]>; // derived column values, before imputation
+  outliers?: OutlierReport;
+  fitMask?: boolean[]; // rows later steps are fitted on; all rows when unset
+  unseenCategories?: Record<string, Record<string, number>>; // feature → value → rows
+  fallbackFills?: Record<string, number>; // numerical values still missing at encoding
+}
+
+// Parameters each step learns from the training rows, applied unchanged to any later rows
+export interface PipelineStepParams {
+  engineerFeatures: { features: EngineeredFeatureId[]; ticketCounts: Record<string, number> };
+  deriveColumns: { columns: DerivedColumn[]; columnTypes: FormulaColumnTypes }; // types of the columns formulas read
+  missingIndicators: { columns: string[]; numericalColumns: string[] };
+  imputeMissing: {
+    numericalFeatures: string[];
+    categoricalFeatures: string[];
+    imputers: Record<string, FittedImputer>;
+  };
+  treatOutliers: { detector: FittedOutlierDetector; treatment: OutlierTreatment };
+  encodeCategorical: {
+    numericalFeatures: string[];
+    categoricalFeatures: string[];
+    categories: Record<string, string[]>; // one-hot columns in order
+    fallbacks: Record<string, number>; // training medians, for numerical values still missing at encoding
+  };
+  standardize: { scalers: FittedScaler[] };
+}
+
+export interface PipelineStepDefinition<S extends PipelineStepId = PipelineStepId> {
+  id: S;
+  label: string;
+  description: string;
+  stage: PipelineStage;
+  required: boolean;
+  fit: (state: PipelineState, config: PipelineConfig) => PipelineStepParams[S];
+  apply: (state: PipelineState, params: PipelineStepParams[S]) => PipelineState;
+}
+
+const STAGE_ORDER: Record<PipelineStage, number> = { rows: 0, encode: 1, matrix: 2 };
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Types of the selected columns, with the values converted to match
+const typedRows = (rows: TitanicPassenger[], config: PipelineConfig) => {
+  const { numericalFeatures, categoricalFeatures } = identifyFeatureTypes(
+    rows,
+    config.typeOverrides,
+    config.excludedColumns
+  );
+  return {
+    rows: coerceFeatureTypes(rows, numericalFeatures, categoricalFeatures),
+    numericalFeatures,
+    categoricalFeatures
+  };
+};
+
+const oneHotFeatures = (params: PipelineStepParams['encodeCategorical']) => {
+  const features = [...params.numericalFeatures];
+  const blocks = [...params.numericalFeatures];
+  params.categoricalFeatures.forEach(feature => {
+    params.categories[feature].forEach(value => {
+      features.push(`${feature}_${value}`);
+      blocks.push(feature);
+    });
+  });
+  return { features, blocks };
+};
+
+export const PIPELINE_STEPS: { [S in PipelineStepId]: PipelineStepDefinition<S> } = {
+  engineerFeatures: {
+    id: 'engineerFeatures',
+    label: 'Feature engineering',
+    description: 'Add the chosen features derived from Name, Cabin, Ticket, Fare, Age and family counts',
+    stage: 'rows',
+    required: false,
+    fit: (state, config) => ({ features: config.engineeredFeatures, ticketCounts: countTickets(state.rows) }),
+    apply: (state, params) => ({
+      ...state,
+      rows: engineerFeatures(state.rows, params.features, params.ticketCounts)
+    })
+  },
+  deriveColumns: {
+    id: 'deriveColumns',
+    label: 'Derived columns',
+    description: 'Add the formula columns defined under Derived Columns, e.g. Fare / FamilySize',
+    stage: 'rows',
+    required: false,
+    fit: (state, config) => {
+      const { numericalFeatures, categoricalFeatures } = identifyFeatureTypes(state.rows, config.typeOverrides, []);
+      const allTypes = columnTypesFromFeatures(numericalFeatures, categoricalFeatures);
+      // Type-check every formula now, so mistakes surface when fitting rather than later
+      deriveColumns([], config.derivedColumns, allTypes);
+
+      const read = new Set(config.derivedColumns.flatMap(({ formula }) => formulaColumns(parseFormula(formula))));
+      const columnTypes = Object.fromEntries(Object.entries(allTypes).filter(([column]) => read.has(column)));
+      return { columns: config.derivedColumns, columnTypes };
+    },
+    apply: (state, params) => {
+      const rows = deriveColumns(state.rows, params.columns, params.columnTypes);
+      const derived = Object.fromEntries(params.columns.map(({ name }) => [name, rows.map(row => row[name])]));
+      return { ...state, rows, derived };
+    }
+  },
+  missingIndicators: {
+    id: 'missingIndicators',
+    label: 'Missing value indicators',
+    description: 'Add a 0/1 <column>_missing feature for the chosen columns, recorded before imputation fills the gaps',
+    stage: 'rows',
+    required: false,
+    fit: (state, config) => {
+      const columns = config.missingIndicators.filter(column => state.rows.some(row => column in row));
+      const { numericalFeatures } = typedRows(state.rows, config);
+      return { columns, numericalColumns: columns.filter(column => numericalFeatures.includes(column)) };
+    },
+    apply: (state, params) => {
+      // Values that do not fit a numerical column count as missing, as they will be imputed too.
+      // A column absent from the rows is missing everywhere.
+      const rows = coerceFeatureTypes(state.rows, params.numericalColumns, []);
+      return { ...state, rows: addMissingIndicators(rows, params.columns) };
+    }
+  },
+  imputeMissing: {
+    id: 'imputeMissing',
+    label: 'Missing value imputation',
+    description: 'Fill gaps with each column\'s strategy: the median or most frequent value unless set otherwise',
+    stage: 'rows',
+    required: true,
+    fit: (state, config) => {
+      const typed = typedRows(state.rows, config);
+      return {
+        numericalFeatures: typed.numericalFeatures,
+        categoricalFeatures: typed.categoricalFeatures,
+        imputers: fitImputers(typed.rows, typed.numericalFeatures, typed.categoricalFeatures, config.imputation)
+      };
+    },
+    apply: (state, params) => {
+      const { numericalFeatures, categoricalFeatures } = params;
+      const typed = coerceFeatureTypes(state.rows, numericalFeatures, categoricalFeatures);
+      const { rows, report } = applyImputers(typed, params.imputers);
+      return { ...state, rows, numericalFeatures, categoricalFeatures, imputation: report };
+    }
+  },
+  treatOutliers: {
+    id: 'treatOutliers',
+    label: 'Outlier treatment',
+    description: 'Find unusual values in the chosen numerical columns and flag, clip or exclude them from fitting',
+    stage: 'rows',
+    required: false,
+    fit: (state, config) => {
+      const { numericalFeatures } = typedRows(state.rows, config);
+      const columns = config.outliers.columns.filter(column => numericalFeatures.includes(column));
+      const rows = coerceFeatureTypes(state.rows, columns, []);
+      return { detector: fitOutlierDetector(rows, columns, config.outliers), treatment: config.outliers.treatment };
+    },
+    apply: (state, params) => {
+      const typed = coerceFeatureTypes(state.rows, params.detector.columns, []);
+      const { rows, report } = applyOutlierDetector(typed, params.detector, params.treatment);
+      if (params.treatment !== 'exclude') return { ...state, rows, outliers: report };
+
+      const outlierRows = new Set(report.rows.map(outlier => outlier.row));
+      const fitMask = rows.map((_, i) => !outlierRows.has(i) && (state.fitMask?.[i] ?? true));
+      return { ...state, rows, outliers: report, fitMask };
+    }
+  },
+  encodeCategorical: {
+    id: 'encodeCategorical',
+    label: 'Feature encoding',
+    description: 'One-hot encode categorical features and build the feature matrix',
+    stage: 'encode',
+    required: true,
+    fit: (state, config) => {
+      const typed = typedRows(state.rows, config);
+      const { features, blocks } = oneHotEncodeCategorical(
+        typed.rows,
+        typed.categoricalFeatures,
+        config.typeOverrides,
+        config.excludedColumns
+      );
+
+      const categories: Record<string, string[]> = {};
+      typed.categoricalFeatures.forEach(feature => {
+        categories[feature] = features
+          .filter((_, j) => blocks[j] === feature)
+          .map(name => name.slice(feature.length + 1));
+      });
+      const fallbacks: Record<string, number> = {};
+      typed.numericalFeatures.forEach(feature => {
+        fallbacks[feature] = median(typed.rows.map(row => row[feature]).filter(value => !isMissing(value)));
+      });
+
+      return {
+        numericalFeatures: typed.numericalFeatures,
+        categoricalFeatures: typed.categoricalFeatures,
+        categories,
+        fallbacks
+      };
+    },
+    apply: (state, params) => {
+      const { numericalFeatures, categoricalFeatures, categories, fallbacks } = params;
+      const rows = coerceFeatureTypes(state.rows, numericalFeatures, categoricalFeatures);
+      const unseenCategories: Record<string, Record<string, number>> = {};
+      const fallbackFills: Record<string, number> = {};
+
+      // Unknown categories get all zeros in their feature's columns rather than a new column
+      const matrix = rows.map(row => {
+        const encoded: number[] = [];
+        numericalFeatures.forEach(feature => {
+          if (isMissing(row[feature])) {
+            fallbackFills[feature] = (fallbackFills[feature] || 0) + 1;
+            encoded.push(fallbacks[feature]);
+          } else {
+            encoded.push(row[feature]);
+          }
+        });
+        categoricalFeatures.forEach(feature => {
+          const value = row[feature];
+          if (!isMissing(value) && !categories[feature].includes(value)) {
+            unseenCategories[feature] = unseenCategories[feature] || {};
+            unseenCategories[feature][value] = (unseenCategories[feature][value] || 0) + 1;
+          }
+          categories[feature].forEach(category => encoded.push(value === category ? 1 : 0));
+        });
+        return encoded;
+      });
+
+      return {
+        ...state,
+        rows,
+        numericalFeatures,
+        categoricalFeatures,
+        matrix,
+        ...oneHotFeatures(params),
+        unseenCategories,
+        fallbackFills
+      };
+    }
+  },
+  standardize: {
+    id: 'standardize',
+    label: 'Feature scaling',
+    description: 'Scale each feature with its scaler (standard unless set otherwise) and apply block weights',
+    stage: 'matrix',
+    required: false,
+    fit: (state, config) => ({
+      scalers: fitScalers(state.matrix ?? [], state.blocks, state.categoricalFeatures, config.scaling)
+    }),
+    apply: (state, params) => ({ ...state, matrix: applyScalers(state.matrix ?? [], params.scalers) })
+  }
+};
+
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+  version: PIPELINE_CONFIG_VERSION,
+  steps: [
+    { id: 'engineerFeatures', enabled: true },
+    { id: 'deriveColumns', enabled: true },
+    { id: 'missingIndicators', enabled: false },
+    { id: 'imputeMissing', enabled: true },
+    { id: 'treatOutliers', enabled: false },
+    { id: 'encodeCategorical', enabled: true },
+    { id: 'standardize', enabled: true }
+  ],
+  excludedColumns: EXCLUDED_FEATURES.filter(column => column !== 'Survived'),
+  typeOverrides: {},
+  engineeredFeatures: DEFAULT_ENGINEERED_FEATURES,
+  derivedColumns: [],
+  imputation: DEFAULT_IMPUTATION_STRATEGIES,
+  missingIndicators: ['Age', 'Cabin'],
+  outliers: DEFAULT_OUTLIER_CONFIG,
+  scaling: DEFAULT_SCALING_CONFIG
+};
+
+// Own keys only, so imported ids such as "toString" or "constructor" are not mistaken for steps
+const isPipelineStepId = (id: unknown): id is PipelineStepId =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(PIPELINE_STEPS, id);
+
+// Problems that would stop the pipeline from running; empty when the configuration is usable
+export const validatePipelineConfig = (config: PipelineConfig): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  config.steps.forEach(step => {
+    const definition = isPipelineStepId(step.id) ? PIPELINE_STEPS[step.id] : undefined;
+    if (!definition) {
+      problems.push(`Unknown step "${step.id}".`);
+    } else if (seen.has(step.id)) {
+      problems.push(`${definition.label} appears more than once.`);
+    } else if (definition.required && !step.enabled) {
+      problems.push(`${definition.label} cannot be turned off.`);
+    }
+    seen.add(step.id);
+  });
+
+  Object.values(PIPELINE_STEPS).forEach(definition => {
+    if (!seen.has(definition.id)) problems.push(`${definition.label} is missing.`);
+  });
+
+  // Row steps must come before encoding and matrix steps after it
+  const stages = config.steps
+    .filter(step => isPipelineStepId(step.id))
+    .map(step => STAGE_ORDER[PIPELINE_STEPS[step.id].stage]);
+  if (stages.some((stage, index) => index > 0 && stage < stages[index - 1])) {
+    problems.push('Row steps must run before encoding and matrix steps after it.');
+  }
+
+  // Indicators must see the gaps before they are filled
+  const stepIds = config.steps.map(step => step.id);
+  if (stepIds.indexOf('missingIndicators') > stepIds.indexOf('imputeMissing')) {
+    problems.push('Missing value indicators must run before imputation.');
+  }
+
+  config.engineeredFeatures.forEach(feature => {
+    if (!Object.prototype.hasOwnProperty.call(ENGINEERED_FEATURES, feature)) problems.push(`Unknown engineered feature "${feature}".`);
+  });
+
+  const derivedNames = new Set<string>();
+  config.derivedColumns.forEach(({ name, formula }) => {
+    if (!name.trim()) {
+      problems.push('Every derived column needs a name.');
+    } else if (derivedNames.has(name)) {
+      problems.push(`More than one derived column is called "${name}".`);
+    }
+    derivedNames.add(name);
+    try {
+      parseFormula(formula);
+    } catch (error) {
+      problems.push(`${name || 'Derived column'}: ${error instanceof Error ? error.message : 'invalid formula'}.`);
+    }
+  });
+
+  const { outliers } = config;
+  if (!OUTLIER_METHODS[outliers.method]) problems.push(`Unknown outlier method "${outliers.method}".`);
+  if (!OUTLIER_TREATMENTS[outliers.treatment]) problems.push(`Unknown outlier treatment "${outliers.treatment}".`);
+  if (!(outliers.iqrMultiplier > 0)) problems.push('The IQR multiplier must be more than zero.');
+  if (!(outliers.zThreshold > 0)) problems.push('The z-score threshold must be more than zero.');
+  if (!(outliers.mahalanobisAlpha > 0 && outliers.mahalanobisAlpha < 1)) {
+    problems.push('The Mahalanobis significance level must be between 0 and 1.');
+  }
+
+  [config.scaling.method, ...Object.values(config.scaling.blocks)].forEach(method => {
+    if (!SCALER_METHODS[method]) problems.push(`Unknown scaler "${method}".`);
+  });
+  Object.entries(config.scaling.weights).forEach(([block, weight]) => {
+    if (!(weight >= 0) || !Number.isFinite(weight)) problems.push(`${block}: weights must be zero or more.`);
+  });
+
+  Object.entries(config.imputation).forEach(([column, strategy]) => {
+    if (!IMPUTATION_METHODS[strategy?.method]) {
+      problems.push(`${column}: unknown imputation method "${strategy?.method}".`);
+    } else if (strategy.method === 'groupMedian' && !strategy.groupBy?.length) {
+      problems.push(`${column}: group median needs at least one column to group by.`);
+    } else if (strategy.method === 'knn' && !(strategy.k >= 1)) {
+      problems.push(`${column}: k-nearest neighbours needs at least one neighbour.`);
+    }
+  });
+
+  return problems;
+};
+
+// Whether a step can swap places with its neighbour without crossing a stage boundary
+export const canMoveStep = (config: PipelineConfig, index: number, direction: -1 | 1): boolean => {
+  const target = index + direction;
+  if (target < 0 || target >= config.steps.length) return false;
+  return PIPELINE_STEPS[config.steps[index].id].stage === PIPELINE_STEPS[config.steps[target].id].stage;
+};
+
+export const moveStep = (config: PipelineConfig, index: number, direction: -1 | 1): PipelineConfig => {
+  if (!canMoveStep(config, index, direction)) return config;
+  const steps = [...config.steps];
+  [steps[index], steps[index + direction]] = [steps[index + direction], steps[index]];
+  return { ...config, steps };
+};
+
+export const setStepEnabled = (config: PipelineConfig, id: PipelineStepId, enabled: boolean): PipelineConfig => {
+  if (PIPELINE_STEPS[id].required) return config;
+  return { ...config, steps: config.steps.map(step => (step.id === id ? { ...step, enabled } : step)) };
+};
+
+// Fill in fields and steps added since a configuration was saved; new optional steps start turned off
+export const normalisePipelineConfig = (config: Partial<PipelineConfig>): PipelineConfig => {
+  const steps = [...(config.steps ?? [])];
+  DEFAULT_PIPELINE_CONFIG.steps.forEach((defaultStep, index) => {
+    if (steps.some(step => step.id === defaultStep.id)) return;
+    const previous = DEFAULT_PIPELINE_CONFIG.steps[index - 1]?.id;
+    const position = previous ? steps.findIndex(step => step.id === previous) + 1 : 0;
+    steps.splice(position, 0, { id: defaultStep.id, enabled: PIPELINE_STEPS[defaultStep.id].required });
+  });
+
+  return {
+    version: PIPELINE_CONFIG_VERSION,
+    steps,
+    excludedColumns: config.excludedColumns ?? DEFAULT_PIPELINE_CONFIG.excludedColumns,
+    typeOverrides: config.typeOverrides ?? {},
+    engineeredFeatures: config.engineeredFeatures ?? DEFAULT_ENGINEERED_FEATURES,
+    derivedColumns: config.derivedColumns ?? [],
+    imputation: config.imputation ?? {},
+    missingIndicators: config.missingIndicators ?? [],
+    outliers: { ...DEFAULT_OUTLIER_CONFIG, ...config.outliers },
+    scaling: { ...DEFAULT_SCALING_CONFIG, ...config.scaling }
+  };
+};
+
+export const serialisePipelineConfig = (config: PipelineConfig): string => {
+  return JSON.stringify(config, null, 2);
+};
+
+// Parse an exported configuration, rejecting anything that would not run
+export const parsePipelineConfig = (json: string): PipelineConfig => {
+  let parsed: Partial<PipelineConfig>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The configuration is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.steps)) {
+    throw new Error('The configuration has no list of steps');
+  }
+  if (parsed.version !== PIPELINE_CONFIG_VERSION) {
+    throw new Error(`Unsupported configuration version ${parsed.version}; expected ${PIPELINE_CONFIG_VERSION}`);
+  }
+
+  const unknownStep = parsed.steps.find(step => !isPipelineStepId(step?.id));
+  if (unknownStep) {
+    throw new Error(`Unknown step "${String(unknownStep?.id)}"`);
+  }
+
+  const config = normalisePipelineConfig({
+    steps: parsed.steps.map(step => ({ id: step.id, enabled: step.enabled !== false })),
+    excludedColumns: Array.isArray(parsed.excludedColumns) ? parsed.excludedColumns.map(String) : [],
+    typeOverrides: parsed.typeOverrides && typeof parsed.typeOverrides === 'object' ? parsed.typeOverrides : {},
+    engineeredFeatures: Array.isArray(parsed.engineeredFeatures)
+      ? parsed.engineeredFeatures.map(feature => String(feature) as EngineeredFeatureId)
+      : undefined,
+    derivedColumns: Array.isArray(parsed.derivedColumns)
+      ? parsed.derivedColumns.map(column => ({ name: String(column?.name ?? ''), formula: String(column?.formula ?? '') }))
+      : [],
+    imputation: parsed.imputation && typeof parsed.imputation === 'object' ? parsed.imputation : {},
+    missingIndicators: Array.isArray(parsed.missingIndicators) ? parsed.missingIndicators.map(String) : [],
+    outliers: parsed.outliers && typeof parsed.outliers === 'object' ? parsed.outliers : undefined,
+    scaling: parsed.scaling && typeof parsed.scaling === 'object' ? parsed.scaling : undefined
+  });
+
+  const problems = validatePipelineConfig(config);
+  if (problems.length > 0) {
+    throw new Error(problems.join(' '));
+  }
+  return config;
+};
+
+// Entries in the step log; separating the target runs before the configured steps
+export type PipelineLogStep = PipelineStepId | 'separateTarget';
+
+// Sent when a step starts and when it ends, with the size of the table going in or coming out
+export interface PipelineStepEvent {
+  phase: 'start' | 'end';
+  step: PipelineLogStep;
+  label: string;
+  index: number; // position among the steps that run
+  total: number;
+  rows: number;
+  columns: number;
+  durationMs?: number; // on end
+}
+
+// A finished step, with the first rows of the table it produced
+export interface PipelineStepRecord {
+  step: PipelineLogStep;
+  label: string;
+  durationMs: number;
+  rows: number;
+  columns: number;
+  fittedRows: number; // fewer than rows when outliers are excluded from fitting
+  table: TitanicPassenger[]; // matrix steps give one object per row, keyed by feature
+}
+
+// Rows kept per step in the log; results are stored with the dataset, so not every row
+export const PIPELINE_SNAPSHOT_ROWS = 200;
+
+export interface PreprocessOptions {
+  config?: PipelineConfig;
+  onProgress?: ProgressCallback;
+  onStepEvent?: (event: PipelineStepEvent) => void;
+}
+
+export const PREPROCESSING_MODEL_VERSION = 2;
+
+// Everything learned from the training rows. Plain data, so it can be sent to the
+// compute worker, stored with results and used to place new passengers in the same feature space.
+export interface PreprocessingModel {
+  version: number;
+  config: PipelineConfig;
+  inputColumns: string[]; // columns of the training rows, apart from Survived
+  features: string[]; // matrix columns, in order
+  steps: Partial<PipelineStepParams>; // for every enabled step
+  fittedRows: number;
+}
+
+// How rows given to transformWithModel differed from the training rows
+export interface TransformReport {
+  rowCount: number;
+  missingColumns: string[]; // training columns absent from the new rows; their values are imputed
+  extraColumns: string[]; // new columns the model does not know; ignored
+  unseenCategories: { feature: string; value: string; count: number }[]; // encoded as all zeros
+  fallbackFills: Record<string, number>; // numerical values filled with the training median at encoding
+  imputation: ImputationReport;
+  outliers?: OutlierReport; // found with the training limits
+}
+
+export interface TransformResult {
+  original: TitanicPassenger[];
+  processed: number[][];
+  features: string[];
+  survivedColumn?: (number | null)[];
+  derivedColumns?: Record<string, (number | string | null)[]>;
+  report: TransformReport;
+}
+
+const initialState = (rows: TitanicPassenger[]): PipelineState => ({
+  rows,
+  matrix: null,
+  features: [],
+  blocks: [],
+  numericalFeatures: [],
+  categoricalFeatures: []
+});
+
+const columnsOf = (rows: TitanicPassenger[]) => {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+  return [...columns];
+};
+
+// Indicator values per row, for the indicators that made it into the feature matrix
+const indicatorColumns = (state: PipelineState, params: PipelineStepParams['missingIndicators'] | undefined) => {
+  if (!params) return undefined;
+  return Object.fromEntries(
+    params.columns
+      .map(missingIndicatorName)
+      .filter(name => state.features.includes(name))
+      .map(name => [name, state.rows.map(row => row[name])])
+  );
+};
+
+// The rows a step is fitted on: those left after excluding outliers
+const fittingState = (state: PipelineState): PipelineState => {
+  if (!state.fitMask) return state;
+  const { fitMask } = state;
+  return {
+    ...state,
+    rows: state.rows.filter((_, i) => fitMask[i]),
+    matrix: state.matrix ? state.matrix.filter((_, i) => fitMask[i]) : null
+  };
+};
+
+const fitStep = <S extends PipelineStepId>(id: S, state: PipelineState, config: PipelineConfig) => {
+  const definition: PipelineStepDefinition<S> = PIPELINE_STEPS[id];
+  const params = definition.fit(fittingState(state), config);
+  return { params, state: definition.apply(state, params) };
+};
+
+const applyStep = <S extends PipelineStepId>(id: S, state: PipelineState, params: PipelineStepParams[S]) => {
+  const definition: PipelineStepDefinition<S> = PIPELINE_STEPS[id];
+  return definition.apply(state, params);
+};
+
+const shapeOf = (state: PipelineState) => {
+  return state.matrix
+    ? { rows: state.matrix.length, columns: state.features.length }
+    : { rows: state.rows.length, columns: columnsOf(state.rows).length };
+};
+
+const snapshotOf = (state: PipelineState): TitanicPassenger[] => {
+  if (!state.matrix) return state.rows.slice(0, PIPELINE_SNAPSHOT_ROWS);
+  return state.matrix
+    .slice(0, PIPELINE_SNAPSHOT_ROWS)
+    .map(values => Object.fromEntries(state.features.map((feature, j) => [feature, values[j]])));
+};
+
+// Runs steps one after another, timing each, reporting when it starts and ends
+// and noting the values it changed
+const createStepLog = (total: number, options: PreprocessOptions) => {
+  const records: PipelineStepRecord[] = [];
+  let lineage: CellChange[] = [];
+
+  const run = (step: PipelineLogStep, label: string, state: PipelineState, work: () => PipelineState) => {
+    const index = records.length;
+    options.onProgress?.(index / total, `${label}...`);
+    options.onStepEvent?.({ phase: 'start', step, label, index, total, ...shapeOf(state) });
+
+    const start = performance.now();
+    const next = work();
+    const durationMs = performance.now() - start;
+    if (step !== 'separateTarget' && next.rows !== state.rows) {
+      lineage = lineage.concat(cellChanges(step, state.rows, next.rows));
+    }
+
+    const shape = shapeOf(next);
+    options.onStepEvent?.({ phase: 'end', step, label, index, total, ...shape, durationMs });
+    records.push({
+      step,
+      label,
+      durationMs,
+      ...shape,
+      fittedRows: state.fitMask ? state.fitMask.filter(Boolean).length : shape.rows,
+      table: snapshotOf(next)
+    });
+    return next;
+  };
+
+  return { records, run, lineage: () => lineage };
+};
+
+// Full preprocessing pipeline: fits every step on the rows and transforms them
+export const preprocessData = (
+  rawData: TitanicPassenger[],
+  options: PreprocessOptions = {}
+): ProcessedData => {
+  const { config = DEFAULT_PIPELINE_CONFIG, onProgress } = options;
+
+  const problems = validatePipelineConfig(config);
+  if (problems.length > 0) {
+    throw new Error(`Invalid pipeline configuration: ${problems.join(' ')}`);
+  }
+
+  const enabledSteps = config.steps.filter(step => step.enabled);
+  const log = createStepLog(enabledSteps.length + 1, options);
+
+  // Separate features and target
+  let separated: ReturnType<typeof separateFeatures>;
+  let state = log.run('separateTarget', 'Target separation', initialState(rawData), () => {
+    separated = separateFeatures(rawData);
+    return initialState(separated.features);
+  });
+  const { features, survived } = separated;
+
+  const steps: Partial<PipelineStepParams> = {};
+  enabledSteps.forEach(step => {
+    state = log.run(step.id, PIPELINE_STEPS[step.id].label, state, () => {
+      const fitted = fitStep(step.id, state, config);
+      Object.assign(steps, { [step.id]: fitted.params });
+      return fitted.state;
+    });
+  });
+  onProgress?.(1, 'Processing complete!');
+
+  const model: PreprocessingModel = {
+    version: PREPROCESSING_MODEL_VERSION,
+    config,
+    inputColumns: columnsOf(features),
+    features: state.features,
+    steps,
+    fittedRows: state.fitMask ? state.fitMask.filter(Boolean).length : rawData.length
+  };
+
+  return {
+    original: rawData,
+    processed: state.matrix ?? [],
+    features: state.features,
+    categoricalFeatures: state.categoricalFeatures,
+    numericalFeatures: state.numericalFeatures,
+    survivedColumn: survived,
+    config,
+    imputation: state.imputation,
+    missingIndicators: indicatorColumns(state, steps.missingIndicators),
+    derivedColumns: state.derived,
+    outliers: state.outliers,
+    stepLog: log.records,
+    lineage: log.lineage(),
+    model
+  };
+};
+
+// Fit a model on training rows without keeping the transformed matrix
+export const fitPreprocessingModel = (
+  rawData: TitanicPassenger[],
+  options: PreprocessOptions = {}
+): PreprocessingModel => {
+  return preprocessData(rawData, options).model!;
+};
+
+// Transform new rows, such as a holdout file, with the parameters learned when fitting.
+// Columns are matched by name, so their order does not matter.
+export const transformWithModel = (
+  model: PreprocessingModel,
+  rawData: TitanicPassenger[],
+  onProgress?: ProgressCallback
+): TransformResult => {
+  if (model.version !== PREPROCESSING_MODEL_VERSION) {
+    throw new Error(`Unsupported preprocessing model version ${model.version}`);
+  }
+
+  const { features, survived } = separateFeatures(rawData);
+  const columns = columnsOf(features);
+
+  let state = initialState(features);
+  const enabledSteps = model.config.steps.filter(step => step.enabled);
+  enabledSteps.forEach((step, index) => {
+    onProgress?.(index / enabledSteps.length, `${PIPELINE_STEPS[step.id].label}...`);
+    if (!(step.id in model.steps)) {
+      throw new Error(`The model has no fitted parameters for "${PIPELINE_STEPS[step.id].label}"`);
+    }
+    state = applyStep(step.id, state, model.steps[step.id]);
+  });
+  onProgress?.(1, 'Transform complete!');
+
+  return {
+    original: rawData,
+    processed: state.matrix ?? [],
+    features: state.features,
+    survivedColumn: survived,
+    derivedColumns: state.derived,
+    report: {
+      rowCount: rawData.length,
+      missingColumns: model.inputColumns.filter(column => !columns.includes(column)),
+      extraColumns: columns.filter(column => !model.inputColumns.includes(column)),
+      unseenCategories: Object.entries(state.unseenCategories ?? {}).flatMap(([feature, counts]) =>
+        Object.entries(counts).map(([value, count]) => ({ feature, value, count }))
+      ),
+      fallbackFills: state.fallbackFills ?? {},
+      imputation: state.imputation ?? [],
+      outliers: state.outliers
+    }
+  };
+};
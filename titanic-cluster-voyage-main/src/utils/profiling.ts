@@ -0,0 +1,180 @@
+import { FeatureType, inferColumnTypes, ProgressCallback, TitanicPassenger } from './dataUtils';
+import { isMissing, quantile, toNumber } from './values';
+
+// Per-column profiles of the loaded rows: distribution, summary statistics, missing values
+// and, when Survived is labelled, the survival rate in each part of the distribution.
+
+interface BucketCounts {
+  label: string;
+  count: number;
+  survived: number; // among labelled rows
+  labelled: number; // rows with a Survived value
+}
+
+// One bar of a profile; also describes which rows a click on that bar keeps
+export type ProfileBucket = BucketCounts & (
+  | { kind: 'range'; lower: number; upper: number; closed: boolean } // closed: includes upper
+  | { kind: 'value'; value: string }
+  | { kind: 'other'; excluded: string[] } // every value not shown in its own bar
+  | { kind: 'missing' }
+);
+
+export interface NumericSummary {
+  mean: number;
+  std: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  skew: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: FeatureType;
+  rows: number;
+  missing: number;
+  distinct: number;
+  summary?: NumericSummary; // numerical columns with at least one value
+  buckets: ProfileBucket[]; // histogram bins, one bar per value, or the top categories
+  missingBucket: ProfileBucket;
+  survivalRate?: number; // over all labelled rows, when Survived is present
+}
+
+// Numerical columns with this many values or fewer get one bar per value, e.g. Pclass or SibSp
+const MAX_DISCRETE_VALUES = 12;
+const HISTOGRAM_BINS = 12;
+const TOP_CATEGORIES = 10;
+
+const formatBound = (value: number) => String(Math.round(value * 100) / 100);
+
+// Whether a row falls in a bucket; used to filter tables by a clicked bar
+export const matchesBucket = (row: TitanicPassenger, column: string, bucket: ProfileBucket): boolean => {
+  const value = row[column];
+  if (bucket.kind === 'missing') return isMissing(value);
+  if (isMissing(value)) return false;
+
+  switch (bucket.kind) {
+    case 'range': {
+      const number = toNumber(value);
+      return number !== null && number >= bucket.lower && (bucket.closed ? number <= bucket.upper : number < bucket.upper);
+    }
+    case 'value':
+      return String(value) === bucket.value;
+    case 'other':
+      return !bucket.excluded.includes(String(value));
+  }
+};
+
+const summarise = (sorted: number[]): NumericSummary => {
+  const n = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / n;
+  const m2 = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / n;
+  const m3 = sorted.reduce((sum, value) => sum + (value - mean) ** 3, 0) / n;
+  return {
+    mean,
+    std: n > 1 ? Math.sqrt((m2 * n) / (n - 1)) : 0,
+    min: sorted[0],
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[n - 1],
+    skew: m2 > 0 ? m3 / m2 ** 1.5 : 0
+  };
+};
+
+// The bars for a column, before counting rows into them
+const bucketsFor = (type: FeatureType, values: unknown[]): ProfileBucket[] => {
+  const empty = { count: 0, survived: 0, labelled: 0 };
+
+  if (type === 'numerical') {
+    const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+    const distinct = [...new Set(numbers)].sort((a, b) => a - b);
+    if (distinct.length <= MAX_DISCRETE_VALUES) {
+      return distinct.map(value => ({ ...empty, kind: 'value', label: String(value), value: String(value) }));
+    }
+
+    const min = distinct[0];
+    const width = (distinct[distinct.length - 1] - min) / HISTOGRAM_BINS;
+    return Array.from({ length: HISTOGRAM_BINS }, (_, i) => {
+      const lower = min + width * i;
+      const upper = min + width * (i + 1);
+      return {
+        ...empty,
+        kind: 'range',
+        label: `${formatBound(lower)}–${formatBound(upper)}`,
+        lower,
+        upper,
+        closed: i === HISTOGRAM_BINS - 1
+      };
+    });
+  }
+
+  const frequencies = new Map<string, number>();
+  values.forEach(value => {
+    const key = String(value);
+    frequencies.set(key, (frequencies.get(key) || 0) + 1);
+  });
+  const ranked = [...frequencies.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  const top = ranked.slice(0, TOP_CATEGORIES);
+  const buckets: ProfileBucket[] = top.map(value => ({ ...empty, kind: 'value', label: value, value }));
+  if (ranked.length > top.length) {
+    buckets.push({ ...empty, kind: 'other', label: `Other (${ranked.length - top.length})`, excluded: top });
+  }
+  return buckets;
+};
+
+export const profileColumns = (data: TitanicPassenger[], onProgress?: ProgressCallback): ColumnProfile[] => {
+  const inferences = inferColumnTypes(data);
+  const columns = Object.keys(inferences);
+
+  const hasLabels = data.some(row => toNumber(row.Survived) !== null);
+  const labels = data.map(row => (hasLabels ? toNumber(row.Survived) : null));
+  const labelled = labels.filter(label => label !== null);
+  const survivalRate = hasLabels ? labelled.filter(label => label === 1).length / labelled.length : undefined;
+
+  return columns.map((column, index) => {
+    onProgress?.(index / columns.length, `Profiling ${column}...`);
+    const { type } = inferences[column];
+    const present = data.map(row => row[column]).filter(value => !isMissing(value));
+
+    const buckets = bucketsFor(type, present);
+    const missingBucket: ProfileBucket = { kind: 'missing', label: 'Missing', count: 0, survived: 0, labelled: 0 };
+    data.forEach((row, i) => {
+      const bucket = isMissing(row[column]) ? missingBucket : buckets.find(b => matchesBucket(row, column, b));
+      if (!bucket) return;
+      bucket.count++;
+      if (labels[i] !== null) {
+        bucket.labelled++;
+        if (labels[i] === 1) bucket.survived++;
+      }
+    });
+
+    const numbers = type === 'numerical'
+      ? present.map(toNumber).filter((value): value is number => value !== null).sort((a, b) => a - b)
+      : [];
+
+    return {
+      column,
+      type,
+      rows: data.length,
+      missing: missingBucket.count,
+      distinct: new Set(present.map(String)).size,
+      summary: numbers.length > 0 ? summarise(numbers) : undefined,
+      buckets,
+      missingBucket,
+      survivalRate: column === 'Survived' ? undefined : survivalRate
+    };
+  });
+};
+
+// A clicked bar, keeping only the rows that fall in it
+export interface ProfileFilter {
+  column: string;
+  bucket: ProfileBucket;
+}
+
+export const describeFilter = ({ column, bucket }: ProfileFilter) => {
+  return bucket.kind === 'missing' ? `${column} is missing` : `${column}: ${bucket.label}`;
+};
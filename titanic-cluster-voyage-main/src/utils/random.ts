@@ -0,0 +1,89 @@
+// Seeded pseudo-random numbers, so generated data and randomised algorithms can be reproduced
+
+export interface Random {
+  seed: number;
+  next: () => number; // uniform in [0, 1)
+  int: (min: number, max: number) => number; // inclusive on both ends
+  normal: (mean?: number, sd?: number) => number;
+  bernoulli: (p: number) => boolean;
+  pick: <T>(items: readonly T[]) => T;
+  weighted: <T>(options: readonly (readonly [T, number])[]) => T;
+}
+
+// Seeds are unsigned 32-bit integers
+export const normaliseSeed = (seed: number): number => {
+  return Math.floor(Math.abs(seed)) >>> 0;
+};
+
+// A fresh seed for when the user does not pick one
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 2 ** 32) >>> 0;
+};
+
+// mulberry32: small, fast and good enough for sampling (not for cryptography)
+export const createRandom = (seed: number): Random => {
+  let state = normaliseSeed(seed);
+  let spareNormal: number | null = null;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  // Box-Muller, keeping the second value of each pair for the next call
+  const normal = (mean = 0, sd = 1) => {
+    if (spareNormal !== null) {
+      const value = spareNormal;
+      spareNormal = null;
+      return mean + sd * value;
+    }
+
+    let u = 0;
+    while (u === 0) u = next();
+    const v = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return mean + sd * radius * Math.cos(2 * Math.PI * v);
+  };
+
+  const bernoulli = (p: number) => next() < p;
+
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+
+  const weighted = <T>(options: readonly (readonly [T, number])[]): T => {
+    const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+    let r = next() * total;
+    for (const [value, weight] of options) {
+      r -= weight;
+      if (r < 0) return value;
+    }
+    return options[options.length - 1][0];
+  };
+
+  return { seed: normaliseSeed(seed), next, int, normal, bernoulli, pick, weighted };
+};
+
+const PINNED_SEED_KEY = 'titanic-pinned-cluster-seed';
+
+// A clustering seed the user pinned, kept in localStorage so reloads and new datasets reuse it
+export const loadPinnedSeed = (): number | null => {
+  try {
+    const stored = localStorage.getItem(PINNED_SEED_KEY);
+    return stored === null ? null : normaliseSeed(Number(stored));
+  } catch {
+    return null;
+  }
+};
+
+export const savePinnedSeed = (seed: number | null) => {
+  if (seed === null) {
+    localStorage.removeItem(PINNED_SEED_KEY);
+  } else {
+    localStorage.setItem(PINNED_SEED_KEY, String(normaliseSeed(seed)));
+  }
+};
@@ -0,0 +1,125 @@
+import { quantile } from './values';
+
+// Column scalers and block weights for the encoded feature matrix.
+// A block is the feature a column came from: a numerical feature is its own block,
+// a categorical feature is the block of all its one-hot columns.
+
+export type ScalerMethod = 'standard' | 'minmax' | 'robust' | 'log1p' | 'none';
+
+export const SCALER_METHODS: Record<ScalerMethod, { label: string; description: string }> = {
+  standard: { label: 'Standard', description: 'Mean 0, standard deviation 1' },
+  minmax: { label: 'Min-max', description: 'Range 0 to 1' },
+  robust: { label: 'Robust', description: 'Median 0, interquartile range 1' },
+  log1p: { label: 'Log1p', description: 'log(1 + x), then mean 0 and standard deviation 1; for skewed values such as Fare' },
+  none: { label: 'None', description: 'Values are used as they are' }
+};
+
+export interface ScalingConfig {
+  method: ScalerMethod; // for blocks without their own
+  blocks: Record<string, ScalerMethod>;
+  weights: Record<string, number>; // multiplier per block, 1 when unset
+  equalBlockVariance: boolean; // scale each categorical block to the total variance of one standardized column
+}
+
+export const DEFAULT_SCALING_CONFIG: ScalingConfig = {
+  method: 'standard',
+  blocks: {},
+  weights: {},
+  equalBlockVariance: false
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length || 1);
+};
+
+// Constant columns keep a divisor of 1 rather than dividing by zero
+const safe = (divisor: number) => (divisor === 0 || !Number.isFinite(divisor) ? 1 : divisor);
+
+// Mirrored for negative values so log1p stays defined
+const signedLog1p = (value: number) => Math.sign(value) * Math.log1p(Math.abs(value));
+
+// Fitted parameters for one matrix column: (transform(x) - center) / scale * weight
+export interface FittedScaler {
+  log: boolean;
+  center: number;
+  scale: number;
+  weight: number;
+}
+
+export const fitScaler = (values: number[], method: ScalerMethod): FittedScaler => {
+  switch (method) {
+    case 'standard':
+    case 'log1p': {
+      const transformed = method === 'log1p' ? values.map(signedLog1p) : values;
+      return { log: method === 'log1p', center: mean(transformed), scale: safe(Math.sqrt(variance(transformed))), weight: 1 };
+    }
+    case 'minmax': {
+      const min = values.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+      const max = values.reduce((highest, value) => Math.max(highest, value), -Infinity);
+      return { log: false, center: Number.isFinite(min) ? min : 0, scale: safe(max - min), weight: 1 };
+    }
+    case 'robust': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+      return { log: false, center: quantile(sorted, 0.5), scale: safe(iqr), weight: 1 };
+    }
+    default:
+      return { log: false, center: 0, scale: 1, weight: 1 };
+  }
+};
+
+const applyScaler = (value: number, scaler: FittedScaler) =>
+  ((scaler.log ? signedLog1p(value) : value) - scaler.center) / scaler.scale * scaler.weight;
+
+export const scaleColumn = (values: number[], method: ScalerMethod): number[] => {
+  const scaler = fitScaler(values, method);
+  return values.map(value => applyScaler(value, scaler));
+};
+
+// Fit every column's scaler and weight; blocks name the feature each column came from
+export const fitScalers = (
+  matrix: number[][],
+  blocks: string[],
+  categoricalBlocks: string[],
+  config: ScalingConfig = DEFAULT_SCALING_CONFIG
+): FittedScaler[] => {
+  if (matrix.length === 0) return [];
+
+  const scalers = blocks.map((block, j) => ({
+    ...fitScaler(matrix.map(row => row[j]), config.blocks[block] ?? config.method),
+    weight: config.weights[block] ?? 1
+  }));
+
+  if (config.equalBlockVariance) {
+    // Scale each categorical block to a total variance of 1, the variance of one standardized column
+    const blockVariance: Record<string, number> = {};
+    blocks.forEach((block, j) => {
+      if (!categoricalBlocks.includes(block)) return;
+      const scaled = matrix.map(row => applyScaler(row[j], { ...scalers[j], weight: 1 }));
+      blockVariance[block] = (blockVariance[block] ?? 0) + variance(scaled);
+    });
+    blocks.forEach((block, j) => {
+      if (blockVariance[block] > 0) scalers[j].weight /= Math.sqrt(blockVariance[block]);
+    });
+  }
+
+  return scalers;
+};
+
+export const applyScalers = (matrix: number[][], scalers: FittedScaler[]): number[][] => {
+  return matrix.map(row => row.map((value, j) => applyScaler(value, scalers[j])));
+};
+
+// Scale every column with its block's scaler, then apply block weights
+export const scaleMatrix = (
+  matrix: number[][],
+  blocks: string[],
+  categoricalBlocks: string[],
+  config: ScalingConfig = DEFAULT_SCALING_CONFIG
+): number[][] => {
+  if (matrix.length === 0 || matrix[0].length === 0) return [];
+  return applyScalers(matrix, fitScalers(matrix, blocks, categoricalBlocks, config));
+};
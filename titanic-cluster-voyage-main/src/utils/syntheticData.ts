@@ -0,0 +1,188 @@
+import { createRandom, Random } from './random';
+import type { TitanicPassenger } from './dataUtils';
+
+// Fake passenger manifests that follow the shape of the Kaggle training set.
+// Rates below are rounded from that set; names are built from syllables so no real passenger appears.
+
+export interface SyntheticOptions {
+  rows: number;
+  seed: number;
+  missingRate: number; // chance that each of MISSING_COLUMNS is blank on a row
+  includeSurvived?: boolean;
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticOptions = {
+  rows: 891,
+  seed: 1912,
+  missingRate: 0.2,
+  includeSurvived: true
+};
+
+// Columns that are blanked at missingRate
+export const MISSING_COLUMNS = ['Age', 'Fare', 'Embarked'] as const;
+
+export const MAX_SYNTHETIC_ROWS = 1_000_000;
+
+type Pclass = 1 | 2 | 3;
+type Title = 'Mr' | 'Mrs' | 'Miss' | 'Master' | 'Rare';
+type Weights<T> = readonly (readonly [T, number])[];
+
+const CLASS_WEIGHTS: Weights<Pclass> = [[1, 0.24], [2, 0.21], [3, 0.55]];
+
+const FEMALE_SHARE: Record<Pclass, number> = { 1: 0.44, 2: 0.41, 3: 0.29 };
+
+const MALE_TITLES: Weights<Title> = [['Mr', 0.87], ['Master', 0.07], ['Rare', 0.06]];
+const FEMALE_TITLES: Weights<Title> = [['Miss', 0.57], ['Mrs', 0.41], ['Rare', 0.02]];
+
+const RARE_TITLES = { male: ['Dr', 'Rev', 'Col', 'Major', 'Capt'], female: ['Dr', 'Lady', 'Countess', 'Mme', 'Ms'] };
+
+// Age by title, shifted by class: first class passengers were older, third class younger
+const AGE_BY_TITLE: Record<Title, { mean: number; sd: number; min: number; max: number }> = {
+  Mr: { mean: 32, sd: 12, min: 13, max: 80 },
+  Mrs: { mean: 36, sd: 11, min: 14, max: 63 },
+  Miss: { mean: 22, sd: 12, min: 0.75, max: 63 },
+  Master: { mean: 4.5, sd: 3.5, min: 0.42, max: 12 },
+  Rare: { mean: 46, sd: 11, min: 23, max: 70 }
+};
+
+const AGE_SHIFT_BY_CLASS: Record<Pclass, number> = { 1: 7, 2: 1, 3: -4 };
+
+// Siblings/spouses and parents/children aboard depend mostly on the title
+const SIBSP_BY_TITLE: Record<Title, Weights<number>> = {
+  Mr: [[0, 0.8], [1, 0.15], [2, 0.03], [3, 0.01], [4, 0.01]],
+  Mrs: [[0, 0.3], [1, 0.65], [2, 0.03], [3, 0.02]],
+  Miss: [[0, 0.6], [1, 0.25], [2, 0.06], [3, 0.04], [4, 0.03], [5, 0.02]],
+  Master: [[0, 0.25], [1, 0.3], [2, 0.1], [3, 0.1], [4, 0.15], [5, 0.1]],
+  Rare: [[0, 0.7], [1, 0.3]]
+};
+
+const PARCH_BY_TITLE: Record<Title, Weights<number>> = {
+  Mr: [[0, 0.9], [1, 0.06], [2, 0.04]],
+  Mrs: [[0, 0.5], [1, 0.25], [2, 0.17], [3, 0.05], [4, 0.03]],
+  Miss: [[0, 0.6], [1, 0.2], [2, 0.17], [5, 0.03]],
+  Master: [[0, 0.05], [1, 0.45], [2, 0.5]],
+  Rare: [[0, 0.9], [1, 0.1]]
+};
+
+// Fares are log-normal within each class and cover everyone travelling on the ticket
+const FARE_BY_CLASS: Record<Pclass, { median: number; sigma: number }> = {
+  1: { median: 48, sigma: 0.7 },
+  2: { median: 12, sigma: 0.45 },
+  3: { median: 7, sigma: 0.35 }
+};
+
+const FREE_TICKET_RATE = 0.017;
+
+const EMBARKED_BY_CLASS: Record<Pclass, Weights<string>> = {
+  1: [['S', 0.59], ['C', 0.4], ['Q', 0.01]],
+  2: [['S', 0.89], ['C', 0.09], ['Q', 0.02]],
+  3: [['S', 0.72], ['C', 0.13], ['Q', 0.15]]
+};
+
+const CABIN_BY_CLASS: Record<Pclass, { rate: number; decks: Weights<string> }> = {
+  1: { rate: 0.82, decks: [['A', 0.08], ['B', 0.3], ['C', 0.34], ['D', 0.16], ['E', 0.12]] },
+  2: { rate: 0.08, decks: [['D', 0.3], ['E', 0.3], ['F', 0.4]] },
+  3: { rate: 0.02, decks: [['E', 0.3], ['F', 0.4], ['G', 0.3]] }
+};
+
+const SURVIVAL_RATE: Record<Pclass, { female: number; male: number; boy: number }> = {
+  1: { female: 0.97, male: 0.35, boy: 1 },
+  2: { female: 0.92, male: 0.08, boy: 1 },
+  3: { female: 0.5, male: 0.11, boy: 0.39 }
+};
+
+const SYLLABLES = ['ar', 'bel', 'cor', 'dan', 'el', 'fen', 'gar', 'hol', 'iv', 'jor', 'kel', 'lin', 'mor',
+  'nev', 'or', 'pel', 'quin', 'ros', 'sel', 'tor', 'ul', 'val', 'wen', 'yar', 'zel'];
+
+const capitalise = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const makeName = (random: Random, syllables: number) => {
+  return capitalise(Array.from({ length: syllables }, () => random.pick(SYLLABLES)).join(''));
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Ages under one keep two decimals, as in the Kaggle data; the rest are whole years
+const roundAge = (age: number) => (age < 1 ? Math.round(age * 100) / 100 : Math.round(age));
+
+const generatePassenger = (random: Random, id: number, options: SyntheticOptions): TitanicPassenger => {
+  const pclass = random.weighted(CLASS_WEIGHTS);
+  const sex = random.bernoulli(FEMALE_SHARE[pclass]) ? 'female' : 'male';
+  const title = random.weighted(sex === 'female' ? FEMALE_TITLES : MALE_TITLES);
+
+  const ageModel = AGE_BY_TITLE[title];
+  const age = roundAge(clamp(
+    random.normal(ageModel.mean + (title === 'Master' ? 0 : AGE_SHIFT_BY_CLASS[pclass]), ageModel.sd),
+    ageModel.min,
+    ageModel.max
+  ));
+
+  // Third class families were larger
+  let sibSp = random.weighted(SIBSP_BY_TITLE[title]);
+  let parch = random.weighted(PARCH_BY_TITLE[title]);
+  if (pclass === 3 && (sibSp > 1 || parch > 1) && random.bernoulli(0.3)) {
+    sibSp += random.int(0, 2);
+    parch += random.int(0, 1);
+  }
+
+  const fareModel = FARE_BY_CLASS[pclass];
+  const travellers = 1 + 0.5 * (sibSp + parch);
+  const fare = random.bernoulli(FREE_TICKET_RATE)
+    ? 0
+    : Math.round(fareModel.median * travellers * Math.exp(random.normal(0, fareModel.sigma)) * 10000) / 10000;
+
+  const cabinModel = CABIN_BY_CLASS[pclass];
+  const cabin = random.bernoulli(cabinModel.rate)
+    ? `${random.weighted(cabinModel.decks)}${random.int(1, 148)}`
+    : '';
+
+  const ticket = pclass === 1 && random.bernoulli(0.3)
+    ? `PC ${random.int(17000, 17800)}`
+    : String(random.int(pclass === 3 ? 300000 : 11000, pclass === 3 ? 380000 : 250000));
+
+  const titleText = title === 'Rare' ? random.pick(RARE_TITLES[sex]) : title;
+  const name = `${makeName(random, 2)}, ${titleText}. ${makeName(random, random.int(1, 2))}`;
+
+  const passenger: TitanicPassenger = {
+    PassengerId: id,
+    Pclass: pclass,
+    Name: name,
+    Sex: sex,
+    Age: age,
+    SibSp: sibSp,
+    Parch: parch,
+    Ticket: ticket,
+    Fare: fare,
+    Cabin: cabin,
+    Embarked: random.weighted(EMBARKED_BY_CLASS[pclass])
+  };
+
+  if (options.includeSurvived !== false) {
+    const rates = SURVIVAL_RATE[pclass];
+    const p = sex === 'female' ? rates.female : title === 'Master' ? rates.boy : rates.male;
+    passenger.Survived = random.bernoulli(p) ? 1 : 0;
+  }
+
+  // Blank strings and nulls match what the CSV parser produces for empty cells
+  MISSING_COLUMNS.forEach((column: string) => {
+    if (random.bernoulli(options.missingRate)) {
+      passenger[column] = column === 'Embarked' ? '' : null;
+    }
+  });
+
+  return passenger;
+};
+
+// Generate a reproducible manifest: the same options always give the same rows
+export const generateSyntheticPassengers = (
+  options: Partial<SyntheticOptions> = {}
+): TitanicPassenger[] => {
+  const resolved: SyntheticOptions = { ...DEFAULT_SYNTHETIC_OPTIONS, ...options };
+  const rows = clamp(Math.floor(resolved.rows), 0, MAX_SYNTHETIC_ROWS);
+  const missingRate = clamp(resolved.missingRate, 0, 1);
+  const random = createRandom(resolved.seed);
+
+  return Array.from({ length: rows }, (_, index) =>
+    generatePassenger(random, index + 1, { ...resolved, missingRate })
+  );
+};
@@ -0,0 +1,28 @@
+// What counts as a missing value or a number, shared by every step so they agree on both
+
+// Blank or whitespace-only text and numbers that are not finite (NaN, ±Infinity) are missing
+export const isMissing = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'number' && !Number.isFinite(value));
+
+// Plain decimal numbers such as "3", "-1.5" or "2e3"; not hexadecimal, binary or "Infinity"
+const DECIMAL_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+export const isDecimalNumber = (text: string): boolean => DECIMAL_NUMBER.test(text.trim());
+
+// A finite number, or a decimal number stored as text; anything else is null
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !isDecimalNumber(value)) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Linear interpolation between the closest ranks of sorted values
+export const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
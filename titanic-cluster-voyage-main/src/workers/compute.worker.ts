@@ -0,0 +1,87 @@
+import { analyseCorrelations } from '@/utils/correlation';
+import { parseCSVText, readCSVFile } from '@/utils/csvParser';
+import { ProgressCallback } from '@/utils/dataUtils';
+import { analyseMissingness } from '@/utils/missingness';
+import { preprocessData, transformWithModel } from '@/utils/pipeline';
+import { profileColumns } from '@/utils/profiling';
+import { DEFAULT_CLUSTER_SEED, findOptimalK, performKMeans, performPCA } from '@/services/mlService';
+import { createRandom } from '@/utils/random';
+import { generateSyntheticPassengers } from '@/utils/syntheticData';
+import type {
+  ComputeArgs,
+  ComputeEvent,
+  ComputeMethod,
+  ComputeRequest,
+  ComputeResponse,
+  ComputeResult
+} from './protocol';
+
+type Handlers = {
+  [M in ComputeMethod]: (
+    args: ComputeArgs<M>,
+    onProgress: ProgressCallback,
+    onEvent: (event: ComputeEvent) => void
+  ) => ComputeResult<M> | Promise<ComputeResult<M>>;
+};
+
+const handlers: Handlers = {
+  readCSVFile: ([file, options], onProgress) => readCSVFile(file, { ...options, onProgress }),
+  parseCSVText: ([text, options]) => parseCSVText(text, options),
+  generateSyntheticPassengers: ([options]) => generateSyntheticPassengers(options),
+  preprocessData: ([rawData, options], onProgress, onEvent) =>
+    preprocessData(rawData, { ...options, onProgress, onStepEvent: onEvent }),
+  transformWithModel: ([model, rawData], onProgress) => transformWithModel(model, rawData, onProgress),
+  performPCA: ([data, numComponents], onProgress) => performPCA(data, numComponents, onProgress),
+  performKMeans: ([data, k, maxIterations, seed], onProgress) =>
+    performKMeans(data, k, maxIterations, onProgress, createRandom(seed ?? DEFAULT_CLUSTER_SEED)),
+  findOptimalK: ([data, maxK, method, seed], onProgress) =>
+    findOptimalK(data, maxK, method, onProgress, createRandom(seed ?? DEFAULT_CLUSTER_SEED)),
+  analyseCorrelations: ([matrix, features, numericalFeatures, categoricalFeatures], onProgress) =>
+    analyseCorrelations(matrix, features, numericalFeatures, categoricalFeatures, onProgress),
+  profileColumns: ([rawData], onProgress) => profileColumns(rawData, onProgress),
+  analyseMissingness: ([rawData], onProgress) => analyseMissingness(rawData, onProgress)
+};
+
+// Progress is reported from tight loops, so only post when something visibly changed
+const MIN_PROGRESS_STEP = 0.01;
+const MIN_PROGRESS_INTERVAL_MS = 100;
+
+const post = (response: ComputeResponse) => {
+  self.postMessage(response);
+};
+
+const createProgressReporter = (id: number): ProgressCallback => {
+  let lastFraction = -1;
+  let lastMessage = '';
+  let lastTime = 0;
+
+  return (fraction, message) => {
+    const now = performance.now();
+    const changed = fraction - lastFraction >= MIN_PROGRESS_STEP || message !== lastMessage;
+    if (!changed || (now - lastTime < MIN_PROGRESS_INTERVAL_MS && fraction < 1)) return;
+
+    lastFraction = fraction;
+    lastMessage = message;
+    lastTime = now;
+    post({ id, type: 'progress', progress: { fraction: Math.min(1, Math.max(0, fraction)), message } });
+  };
+};
+
+self.onmessage = async (event: MessageEvent<ComputeRequest>) => {
+  const { id, method, args } = event.data;
+  const handler = handlers[method] as (
+    args: ComputeArgs<ComputeMethod>,
+    onProgress: ProgressCallback,
+    onEvent: (event: ComputeEvent) => void
+  ) => unknown;
+
+  try {
+    if (!handler) {
+      throw new Error(`Unknown compute method "${method}"`);
+    }
+    const result = await handler(args, createProgressReporter(id), event => post({ id, type: 'event', event }));
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
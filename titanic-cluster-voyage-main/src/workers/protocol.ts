@@ -0,0 +1,62 @@
+import type { CorrelationResult } from '@/utils/correlation';
+import type { CSVParseResult, CSVParserOptions, CSVTable, ReadCSVFileOptions } from '@/utils/csvParser';
+import type { ProcessedData, TitanicPassenger } from '@/utils/dataUtils';
+import type { PipelineStepEvent, PreprocessingModel, PreprocessOptions, TransformResult } from '@/utils/pipeline';
+import type { MissingnessAnalysis } from '@/utils/missingness';
+import type { ColumnProfile } from '@/utils/profiling';
+import type { findOptimalK, performKMeans, performPCA } from '@/services/mlService';
+import type { SyntheticOptions } from '@/utils/syntheticData';
+
+// Everything the compute worker can run. Arguments must survive structured cloning,
+// so progress and event callbacks are left out here and wired up by the worker itself.
+export interface ComputeMethods {
+  readCSVFile: (file: Blob, options?: Omit<ReadCSVFileOptions, 'onProgress'>) => CSVTable;
+  parseCSVText: (text: string, options?: CSVParserOptions) => CSVParseResult;
+  generateSyntheticPassengers: (options?: Partial<SyntheticOptions>) => TitanicPassenger[];
+  preprocessData: (
+    rawData: TitanicPassenger[],
+    options?: Omit<PreprocessOptions, 'onProgress' | 'onStepEvent'>
+  ) => ProcessedData;
+  transformWithModel: (model: PreprocessingModel, rawData: TitanicPassenger[]) => TransformResult;
+  performPCA: (data: number[][], numComponents?: number) => ReturnType<typeof performPCA>;
+  // Generators cannot be cloned, so k-means takes the seed and the worker creates the generator
+  performKMeans: (data: number[][], k: number, maxIterations?: number, seed?: number) => ReturnType<typeof performKMeans>;
+  findOptimalK: (
+    data: number[][],
+    maxK?: number,
+    method?: 'elbow' | 'silhouette',
+    seed?: number
+  ) => ReturnType<typeof findOptimalK>;
+  analyseCorrelations: (
+    matrix: number[][],
+    features: string[],
+    numericalFeatures: string[],
+    categoricalFeatures: string[]
+  ) => CorrelationResult;
+  profileColumns: (rawData: TitanicPassenger[]) => ColumnProfile[];
+  analyseMissingness: (rawData: TitanicPassenger[]) => MissingnessAnalysis;
+}
+
+export type ComputeMethod = keyof ComputeMethods;
+export type ComputeArgs<M extends ComputeMethod> = Parameters<ComputeMethods[M]>;
+export type ComputeResult<M extends ComputeMethod> = ReturnType<ComputeMethods[M]>;
+
+export interface ComputeRequest<M extends ComputeMethod = ComputeMethod> {
+  id: number;
+  method: M;
+  args: ComputeArgs<M>;
+}
+
+export interface ComputeProgress {
+  fraction: number;
+  message: string;
+}
+
+// Milestones a task reports along the way; unlike progress they are never dropped
+export type ComputeEvent = PipelineStepEvent;
+
+export type ComputeResponse =
+  | { id: number; type: 'progress'; progress: ComputeProgress }
+  | { id: number; type: 'event'; event: ComputeEvent }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };